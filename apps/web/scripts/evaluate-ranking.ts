@@ -0,0 +1,101 @@
+/**
+ * Replays liked searches against a corpus fixture with one or more engine
+ * configs and prints MRR, recall@k and NDCG@k for each.
+ *
+ * Usage:
+ *   pnpm -F web evaluate-ranking <fixture.json> [configs.json]
+ *
+ * The fixture is a `RankingEvaluationFixture`, downloaded with "Export
+ * ranking fixture" in the app's stored data dialog: the signed-in user's
+ * stars plus the output of the `getRankingEvaluationCases` procedure. Priors
+ * are measured from its export time, so a fixture scores the same any day.
+ * The configs file maps a name to `EngineConfigOverrides`; without it only
+ * the default config is evaluated.
+ */
+import { readFile } from "node:fs/promises";
+import {
+  type ConfigEvaluation,
+  compareConfigs,
+  type RankingEvaluationFixture,
+  toEvaluationCases,
+} from "../src/features/search/ranking-evaluation";
+import type { EngineConfigOverrides } from "../src/features/search/repository-search-engine";
+
+const METRIC_DIGITS = 3;
+const COLUMN_PADDING = 2;
+
+async function readJson<T>(path: string): Promise<T> {
+  return JSON.parse(await readFile(path, "utf8")) as T;
+}
+
+function formatTable(results: ConfigEvaluation[]): string {
+  const [first] = results;
+  if (!first) {
+    return "";
+  }
+  const cutoffs = Object.keys(first.metrics.recall);
+  const header = [
+    "config",
+    "cases",
+    `mrr@${first.metrics.depth}`,
+    ...cutoffs.map((k) => `recall@${k}`),
+    ...cutoffs.map((k) => `ndcg@${k}`),
+  ];
+  const rows = results.map(({ name, metrics }) => [
+    name,
+    String(metrics.caseCount),
+    metrics.mrr.toFixed(METRIC_DIGITS),
+    ...cutoffs.map((k) =>
+      (metrics.recall[Number(k)] ?? 0).toFixed(METRIC_DIGITS)
+    ),
+    ...cutoffs.map((k) =>
+      (metrics.ndcg[Number(k)] ?? 0).toFixed(METRIC_DIGITS)
+    ),
+  ]);
+  const widths = header.map((_, column) =>
+    Math.max(...[header, ...rows].map((row) => row[column]?.length ?? 0))
+  );
+  return [header, ...rows]
+    .map((row) =>
+      row
+        .map((cell, column) =>
+          cell.padEnd((widths[column] ?? 0) + COLUMN_PADDING)
+        )
+        .join("")
+        .trimEnd()
+    )
+    .join("\n");
+}
+
+async function main() {
+  const [fixturePath, configsPath] = process.argv.slice(2);
+  if (!fixturePath) {
+    process.stderr.write(
+      "Usage: evaluate-ranking <fixture.json> [configs.json]\n"
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  const fixture = await readJson<RankingEvaluationFixture>(fixturePath);
+  const configs = configsPath
+    ? await readJson<Record<string, EngineConfigOverrides>>(configsPath)
+    : { default: {} };
+
+  const cases = toEvaluationCases(fixture.cases);
+  const results = compareConfigs(fixture.repositories, cases, configs, {
+    now: Date.parse(fixture.exportedAt),
+  });
+
+  const missingCount = results[0]?.metrics.missingCount ?? 0;
+  process.stdout.write(
+    `${cases.length} cases, ${fixture.repositories.length} repositories` +
+      (missingCount > 0
+        ? `, ${missingCount} liked repositories missing from the corpus`
+        : "") +
+      "\n\n"
+  );
+  process.stdout.write(`${formatTable(results)}\n`);
+}
+
+await main();
@@ -1,6 +1,8 @@
+import type { StarredRepository } from "@i-starred-it/api/services/github";
 import {
   ClockIcon,
   DatabaseIcon,
+  DownloadIcon,
   RepoIcon,
   StarIcon,
   SyncIcon,
@@ -23,6 +25,10 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { client } from "@/utils/orpc";
+import type { RankingEvaluationFixture } from "../search/ranking-evaluation";
+import { useSharedRepositorySearch } from "../search/repository-search-provider";
+import { SimilarRepositoriesDialog } from "../search/similar-repositories-dialog";
 import { useGithubStarredRepositories } from "./use-github-starred-repositories";
 
 function formatDate(dateString: string): string {
@@ -43,6 +49,69 @@ function formatDateWithTime(dateString: string): string {
   }).format(date);
 }
 
+function downloadJson(value: unknown, fileName: string) {
+  const url = URL.createObjectURL(
+    new Blob([JSON.stringify(value)], { type: "application/json" })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function CachedRepositoryList({
+  repositories,
+}: {
+  repositories: StarredRepository[];
+}) {
+  const { similar, isReady } = useSharedRepositorySearch();
+
+  return (
+    <div className="grid gap-3">
+      {repositories.map((repo, index) => (
+        <Fragment key={`${repo.owner}/${repo.name}`}>
+          <div className="flex flex-col gap-1.5">
+            <div className="flex items-center gap-2">
+              <a
+                className="hover:underline"
+                href={`https://github.com/${repo.owner}/${repo.name}`}
+                rel="noopener noreferrer"
+                target="_blank"
+              >
+                <span className="font-semibold text-sm tracking-[0.01em]">
+                  {repo.owner}/{repo.name}
+                </span>
+              </a>
+              <div className="flex items-center gap-1 text-muted-foreground text-xs">
+                <StarIcon size={12} />
+                <span>{repo.stargazerCount.toLocaleString()}</span>
+              </div>
+              {isReady && (
+                <div className="ml-auto">
+                  <SimilarRepositoriesDialog
+                    findSimilar={similar}
+                    id={`${repo.owner}/${repo.name}`}
+                  />
+                </div>
+              )}
+            </div>
+            {repo.description ? (
+              <p className="line-clamp-2 text-muted-foreground text-xs">
+                {repo.description}
+              </p>
+            ) : null}
+            <div className="text-muted-foreground text-xs">
+              Starred {formatDateWithTime(repo.starredAt)}
+            </div>
+          </div>
+          {index < repositories.length - 1 ? <Separator /> : null}
+        </Fragment>
+      ))}
+    </div>
+  );
+}
+
 export function RepositoryCacheManager() {
   const github = useGithubStarredRepositories();
   const [open, setOpen] = useState(false);
@@ -58,6 +127,21 @@ export function RepositoryCacheManager() {
 
   const isLoading = github.isLoading || github.isFetching;
   const repositories = github.repositories;
+
+  // The corpus and liked searches `pnpm -F web evaluate-ranking` replays.
+  const handleExportFixture = async () => {
+    try {
+      const fixture: RankingEvaluationFixture = {
+        exportedAt: new Date().toISOString(),
+        repositories,
+        cases: await client.getRankingEvaluationCases(),
+      };
+      downloadJson(fixture, "ranking-fixture.json");
+    } catch {
+      toast.error("Failed to export ranking fixture");
+    }
+  };
+
   const repositoryCount = repositories.length;
   const lastUpdated = repositories[0]?.starredAt;
 
@@ -91,25 +175,45 @@ export function RepositoryCacheManager() {
                 ) : null}
               </DialogDescription>
             </div>
-            <Button
-              className="w-full md:w-auto"
-              disabled={isLoading}
-              onClick={handleRefresh}
-              size="sm"
-              variant="outline"
-            >
-              {isLoading ? (
-                <>
-                  <Spinner className="size-3" />
-                  <span className="ml-1.5">Refreshing...</span>
-                </>
-              ) : (
-                <>
-                  <SyncIcon size={12} />
-                  <span className="ml-1.5">Refresh</span>
-                </>
-              )}
-            </Button>
+            <div className="flex gap-2">
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    className="flex-1 md:flex-none"
+                    disabled={isLoading || repositories.length === 0}
+                    onClick={handleExportFixture}
+                    size="sm"
+                    variant="outline"
+                  >
+                    <DownloadIcon size={12} />
+                    <span className="ml-1.5">Export ranking fixture</span>
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  Your stars and liked searches, for the ranking evaluation
+                  script
+                </TooltipContent>
+              </Tooltip>
+              <Button
+                className="flex-1 md:flex-none"
+                disabled={isLoading}
+                onClick={handleRefresh}
+                size="sm"
+                variant="outline"
+              >
+                {isLoading ? (
+                  <>
+                    <Spinner className="size-3" />
+                    <span className="ml-1.5">Refreshing...</span>
+                  </>
+                ) : (
+                  <>
+                    <SyncIcon size={12} />
+                    <span className="ml-1.5">Refresh</span>
+                  </>
+                )}
+              </Button>
+            </div>
           </div>
         </DialogHeader>
 
@@ -126,39 +230,7 @@ export function RepositoryCacheManager() {
             </div>
           )}
           {repositories.length > 0 && (
-            <div className="grid gap-3">
-              {repositories.map((repo, index) => (
-                <Fragment key={`${repo.owner}/${repo.name}`}>
-                  <div className="flex flex-col gap-1.5">
-                    <div className="flex items-center gap-2">
-                      <a
-                        className="hover:underline"
-                        href={`https://github.com/${repo.owner}/${repo.name}`}
-                        rel="noopener noreferrer"
-                        target="_blank"
-                      >
-                        <span className="font-semibold text-sm tracking-[0.01em]">
-                          {repo.owner}/{repo.name}
-                        </span>
-                      </a>
-                      <div className="flex items-center gap-1 text-muted-foreground text-xs">
-                        <StarIcon size={12} />
-                        <span>{repo.stargazerCount.toLocaleString()}</span>
-                      </div>
-                    </div>
-                    {repo.description ? (
-                      <p className="line-clamp-2 text-muted-foreground text-xs">
-                        {repo.description}
-                      </p>
-                    ) : null}
-                    <div className="text-muted-foreground text-xs">
-                      Starred {formatDateWithTime(repo.starredAt)}
-                    </div>
-                  </div>
-                  {index < repositories.length - 1 ? <Separator /> : null}
-                </Fragment>
-              ))}
-            </div>
+            <CachedRepositoryList repositories={repositories} />
           )}
         </div>
       </DialogContent>
@@ -9,6 +9,7 @@ import { authClient } from "@/lib/auth-client";
 import { client } from "@/utils/orpc";
 
 const STORAGE_PREFIX = "github-starred-repositories";
+const README_PUBLISH_INTERVAL_MS = 1000;
 
 type ExtendedFetchMetrics = FetchMetrics & {
   restReadme: {
@@ -26,6 +27,17 @@ type CachedEntry = {
   metrics: ExtendedFetchMetrics;
 };
 
+export type ReadmeProgress = {
+  /** Repositories whose README fetch finished, found or not. */
+  loaded: number;
+  total: number;
+};
+
+type StarredRepositoriesData = CachedEntry & {
+  /** Set on partial data published while READMEs are still loading. */
+  readmeProgress?: ReadmeProgress;
+};
+
 type CachedValue = CachedEntry | null;
 
 type CacheState = {
@@ -146,10 +158,19 @@ async function fetchReadmeFromCdn(
   }
 }
 
-async function fetchAllStarredRepositories(): Promise<{
-  repositories: StarredRepository[];
-  metrics: ExtendedFetchMetrics;
-}> {
+function buildReadmeKey(repository: { owner: string; name: string }) {
+  return `${repository.owner}/${repository.name}`;
+}
+
+/**
+ * Fetches every starred repository, then its README from the CDN or, failing
+ * that, the REST API. `onPartial` first receives the repositories without
+ * READMEs and then, at most every `README_PUBLISH_INTERVAL_MS`, with the
+ * READMEs that arrived so far, so search works before the sync finishes.
+ */
+async function fetchAllStarredRepositories(
+  onPartial: (data: StarredRepositoriesData) => void
+): Promise<StarredRepositoriesData> {
   const metrics: ExtendedFetchMetrics = {
     totalDurationMs: 0,
     graphql: {
@@ -180,93 +201,94 @@ async function fetchAllStarredRepositories(): Promise<{
   metrics.rest.requests += step1Metrics.rest.requests;
   metrics.rest.durationMs += step1Metrics.rest.durationMs;
 
-  const cdnStartedAt = Date.now();
-  const cdnResults = await Promise.all(
-    reposWithoutReadme.map(async (repo: StarredRepository) => {
-      const readme = await fetchReadmeFromCdn(repo.owner, repo.name);
-      metrics.cdnReadme.requests += 1;
-      return {
-        owner: repo.owner,
-        name: repo.name,
-        readme,
-      };
-    })
-  );
-  metrics.cdnReadme.durationMs = Date.now() - cdnStartedAt;
-
-  const reposNeedingRestFetch = reposWithoutReadme.filter(
-    (repo: StarredRepository) => {
-      const cdnResult = cdnResults.find(
-        (r: { owner: string; name: string; readme: string | null }) =>
-          r.owner === repo.owner && r.name === repo.name
-      );
-      return cdnResult?.readme === null;
-    }
-  );
-
-  const BATCH_SIZE = 50;
-  const batches: StarredRepository[][] = [];
-  for (let i = 0; i < reposNeedingRestFetch.length; i += BATCH_SIZE) {
-    batches.push(reposNeedingRestFetch.slice(i, i + BATCH_SIZE));
-  }
-
-  const restResults = await Promise.all(
-    batches.map(async (batch) => {
-      if (batch.length === 0) {
-        return [];
-      }
+  // READMEs by repository; a repository is settled once it has an entry,
+  // null meaning neither source had one.
+  const readmes = new Map<string, string | null>();
+  const withReadmes = () =>
+    reposWithoutReadme.map((repo: StarredRepository) => ({
+      ...repo,
+      readme: readmes.get(buildReadmeKey(repo)) ?? null,
+    }));
+
+  let publishTimer: ReturnType<typeof setTimeout> | null = null;
+  const publish = () => {
+    publishTimer = null;
+    onPartial({
+      repositories: withReadmes(),
+      metrics,
+      readmeProgress: {
+        loaded: readmes.size,
+        total: reposWithoutReadme.length,
+      },
+    });
+  };
+  const schedulePublish = () => {
+    publishTimer ??= setTimeout(publish, README_PUBLISH_INTERVAL_MS);
+  };
 
-      const { readmes, metrics: batchMetrics } =
-        await client.githubFetchReadmes({
-          repositories: batch.map((r: StarredRepository) => ({
-            owner: r.owner,
-            name: r.name,
-          })),
-        });
+  publish();
 
-      metrics.restReadme.requests += batchMetrics.restReadme.requests;
-      metrics.restReadme.durationMs += batchMetrics.restReadme.durationMs;
+  try {
+    const cdnStartedAt = Date.now();
+    const cdnReadmes = await Promise.all(
+      reposWithoutReadme.map(async (repo: StarredRepository) => {
+        const readme = await fetchReadmeFromCdn(repo.owner, repo.name);
+        metrics.cdnReadme.requests += 1;
+        if (readme !== null) {
+          readmes.set(buildReadmeKey(repo), readme);
+          schedulePublish();
+        }
+        return readme;
+      })
+    );
+    metrics.cdnReadme.durationMs = Date.now() - cdnStartedAt;
+
+    const reposNeedingRestFetch = reposWithoutReadme.filter(
+      (_repo: StarredRepository, index: number) => cdnReadmes[index] === null
+    );
+
+    const BATCH_SIZE = 50;
+    const batches: StarredRepository[][] = [];
+    for (let i = 0; i < reposNeedingRestFetch.length; i += BATCH_SIZE) {
+      batches.push(reposNeedingRestFetch.slice(i, i + BATCH_SIZE));
+    }
 
-      return readmes;
-    })
-  );
+    await Promise.all(
+      batches.map(async (batch) => {
+        if (batch.length === 0) {
+          return;
+        }
 
-  const restReadmeMap = new Map(
-    restResults
-      .flat()
-      .map((r: { owner: string; name: string; readme: string | null }) => [
-        `${r.owner}/${r.name}`,
-        r.readme,
-      ])
-  );
+        const { readmes: batchReadmes, metrics: batchMetrics } =
+          await client.githubFetchReadmes({
+            repositories: batch.map((r: StarredRepository) => ({
+              owner: r.owner,
+              name: r.name,
+            })),
+          });
 
-  const repositories: StarredRepository[] = reposWithoutReadme.map(
-    (repo: StarredRepository) => {
-      const cdnResult = cdnResults.find(
-        (r: { owner: string; name: string; readme: string | null }) =>
-          r.owner === repo.owner && r.name === repo.name
-      );
-      const cdnReadme = cdnResult?.readme;
-
-      if (cdnReadme !== null && cdnReadme !== undefined) {
-        return {
-          ...repo,
-          readme: cdnReadme,
-        };
-      }
+        metrics.restReadme.requests += batchMetrics.restReadme.requests;
+        metrics.restReadme.durationMs += batchMetrics.restReadme.durationMs;
 
-      const restReadme = restReadmeMap.get(`${repo.owner}/${repo.name}`);
-      return {
-        ...repo,
-        readme: restReadme ?? null,
-      };
+        for (const repo of batch) {
+          readmes.set(buildReadmeKey(repo), null);
+        }
+        for (const r of batchReadmes) {
+          readmes.set(buildReadmeKey(r), r.readme);
+        }
+        schedulePublish();
+      })
+    );
+  } finally {
+    if (publishTimer) {
+      clearTimeout(publishTimer);
     }
-  );
+  }
 
   metrics.totalDurationMs = Date.now() - startedAt;
 
   return {
-    repositories,
+    repositories: withReadmes(),
     metrics,
   };
 }
@@ -283,7 +305,10 @@ export function useGithubStarredRepositories() {
 
   const query = useQuery({
     queryKey: ["github-starred-repositories-v2"],
-    queryFn: fetchAllStarredRepositories,
+    queryFn: ({ client: queryClient, queryKey }) =>
+      fetchAllStarredRepositories((partial) => {
+        queryClient.setQueryData(queryKey, partial);
+      }),
     enabled,
     refetchOnMount: false,
     refetchOnReconnect: false,
@@ -312,7 +337,8 @@ export function useGithubStarredRepositories() {
       return;
     }
 
-    if (!query.data) {
+    // Partial data is only cached once every README is in.
+    if (!query.data || query.data.readmeProgress) {
       return;
     }
 
@@ -324,8 +350,10 @@ export function useGithubStarredRepositories() {
   return {
     ...query,
     repositories,
+    userId,
     isLoading,
     metrics,
+    readmeProgress: query.data?.readmeProgress ?? null,
     hasCache: Boolean(cachedEntry),
     status: query.status,
   };
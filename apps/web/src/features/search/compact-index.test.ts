@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildPostingLists,
+  createDocumentTerms,
+  findPosting,
+  findTermEntries,
+  TermDictionary,
+  uniqueTermIds,
+} from "./compact-index";
+
+const countsOf = (...fields: [number, number][][]) =>
+  fields.map((entries) => new Map(entries));
+
+describe("TermDictionary", () => {
+  it("hands out stable ids and looks up only live terms", () => {
+    const dictionary = new TermDictionary();
+    const react = dictionary.intern("react");
+    const vue = dictionary.intern("vue");
+
+    expect(dictionary.intern("react")).toBe(react);
+    expect(dictionary.lookup("react")).toBeUndefined();
+
+    dictionary.adjustFrequency(react, 1);
+    expect(dictionary.lookup("react")).toBe(react);
+    expect(dictionary.term(vue)).toBe("vue");
+    expect(Array.from(dictionary.liveTerms())).toEqual(["react"]);
+
+    expect(dictionary.adjustFrequency(react, -1)).toBe(0);
+    expect(dictionary.lookup("react")).toBeUndefined();
+    expect(dictionary.size).toBe(2);
+  });
+});
+
+describe("createDocumentTerms", () => {
+  it("sorts entries by term and then field", () => {
+    const terms = createDocumentTerms(
+      countsOf(
+        [
+          [2, 1],
+          [0, 1],
+        ],
+        [[2, 2]]
+      )
+    );
+
+    expect(Array.from(terms.termIds)).toEqual([0, 2, 2]);
+    expect(Array.from(terms.fields)).toEqual([0, 0, 1]);
+    expect(Array.from(terms.counts)).toEqual([1, 1, 2]);
+    expect(findTermEntries(terms, 2)).toEqual([1, 2 + 1]);
+    expect(findTermEntries(terms, 1)).toEqual([1, 1]);
+    expect(Array.from(uniqueTermIds(terms))).toEqual([0, 2]);
+  });
+});
+
+describe("buildPostingLists", () => {
+  const documents = [
+    createDocumentTerms(countsOf([[1, 1]], [[1, 2]])),
+    undefined,
+    createDocumentTerms(
+      countsOf([
+        [0, 1],
+        [1, 1],
+      ])
+    ),
+  ];
+  const sumCounts = (docId: number, start: number, end: number) => {
+    const counts = documents[docId]?.counts.subarray(start, end);
+    return counts?.reduce((sum, count) => sum + count, 0) ?? 0;
+  };
+
+  it("lists each term's documents with their impacts", () => {
+    const lists = buildPostingLists(documents, 2, sumCounts);
+
+    expect(Array.from(lists.offsets)).toEqual([0, 1, 2 + 1]);
+    expect(Array.from(lists.docIds)).toEqual([2, 0, 2]);
+    expect(Array.from(lists.impacts)).toEqual([1, 2 + 1, 1]);
+    expect(Array.from(lists.maxImpacts)).toEqual([1, 2 + 1]);
+  });
+
+  it("finds a document's posting by binary search", () => {
+    const lists = buildPostingLists(documents, 2, sumCounts);
+
+    expect(findPosting(lists, 1, 2)).toBe(2);
+    expect(findPosting(lists, 0, 0)).toBe(-1);
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Interns index terms as small integers and counts how many documents hold
+ * each. Ids are never reused for another term, so a term that disappears and
+ * comes back keeps its id.
+ */
+export class TermDictionary {
+  private readonly ids = new Map<string, number>();
+  private readonly terms: string[] = [];
+  private readonly frequencies: number[] = [];
+
+  /** Number of ids handed out, live or not. */
+  get size(): number {
+    return this.terms.length;
+  }
+
+  intern(term: string): number {
+    const existing = this.ids.get(term);
+    if (existing !== undefined) {
+      return existing;
+    }
+    const id = this.terms.length;
+    this.ids.set(term, id);
+    this.terms.push(term);
+    this.frequencies.push(0);
+    return id;
+  }
+
+  /** Id of a term at least one document holds. */
+  lookup(term: string): number | undefined {
+    const id = this.ids.get(term);
+    return id !== undefined && (this.frequencies[id] ?? 0) > 0 ? id : undefined;
+  }
+
+  term(id: number): string {
+    return this.terms[id] ?? "";
+  }
+
+  documentFrequency(id: number): number {
+    return this.frequencies[id] ?? 0;
+  }
+
+  /** Adjusts the document frequency and returns the new one. */
+  adjustFrequency(id: number, delta: number): number {
+    const frequency = Math.max(0, (this.frequencies[id] ?? 0) + delta);
+    this.frequencies[id] = frequency;
+    return frequency;
+  }
+
+  /** Terms at least one document holds, by increasing id. */
+  *liveTerms(): Generator<string> {
+    for (const [id, term] of this.terms.entries()) {
+      if ((this.frequencies[id] ?? 0) > 0) {
+        yield term;
+      }
+    }
+  }
+}
+
+/**
+ * Term frequencies of one document as parallel arrays with one entry per
+ * term and field it occurs in, sorted by term id and then field index.
+ */
+export type DocumentTerms = {
+  termIds: Uint32Array;
+  fields: Uint8Array;
+  counts: Uint16Array;
+};
+
+/** Counts above this are clamped; no realistic field repeats a term more. */
+const MAX_TERM_COUNT = 65_535;
+
+/**
+ * Packs per-field `termId -> count` maps, indexed by field, into
+ * `DocumentTerms`.
+ */
+export function createDocumentTerms(
+  countsByField: Map<number, number>[]
+): DocumentTerms {
+  const entries: [number, number, number][] = [];
+  for (const [field, counts] of countsByField.entries()) {
+    for (const [termId, count] of counts) {
+      entries.push([termId, field, count]);
+    }
+  }
+  entries.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+  const terms: DocumentTerms = {
+    termIds: new Uint32Array(entries.length),
+    fields: new Uint8Array(entries.length),
+    counts: new Uint16Array(entries.length),
+  };
+  for (const [index, [termId, field, count]] of entries.entries()) {
+    terms.termIds[index] = termId;
+    terms.fields[index] = field;
+    terms.counts[index] = Math.min(count, MAX_TERM_COUNT);
+  }
+  return terms;
+}
+
+/**
+ * Range of the entries for `termId`, as `[start, end)`; empty when the
+ * document lacks the term.
+ */
+export function findTermEntries(
+  terms: DocumentTerms,
+  termId: number
+): [number, number] {
+  let low = 0;
+  let high = terms.termIds.length;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if ((terms.termIds[middle] ?? 0) < termId) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  let end = low;
+  while (end < terms.termIds.length && terms.termIds[end] === termId) {
+    end += 1;
+  }
+  return [low, end];
+}
+
+/** Distinct term ids of a document, ascending. */
+export function* uniqueTermIds(terms: DocumentTerms): Generator<number> {
+  for (const [index, termId] of terms.termIds.entries()) {
+    if (index === 0 || terms.termIds[index - 1] !== termId) {
+      yield termId;
+    }
+  }
+}
+
+/**
+ * Posting lists of every term in one flat layout: the postings of term `t`
+ * are `docIds` and `impacts` from `offsets[t]` up to `offsets[t + 1]`, sorted
+ * by doc id.
+ */
+export type PostingLists = {
+  offsets: Uint32Array;
+  docIds: Uint32Array;
+  /** Score of the term in the document before IDF and query weights. */
+  impacts: Float32Array;
+  /** Per term, the highest impact in its list. */
+  maxImpacts: Float32Array;
+};
+
+export const EMPTY_POSTING_LISTS: PostingLists = {
+  offsets: new Uint32Array(1),
+  docIds: new Uint32Array(0),
+  impacts: new Float32Array(0),
+  maxImpacts: new Float32Array(0),
+};
+
+/** Entries of each distinct term as `[termId, start, end]`. */
+function* termRanges(
+  terms: DocumentTerms
+): Generator<[number, number, number]> {
+  let start = 0;
+  while (start < terms.termIds.length) {
+    const termId = terms.termIds[start] ?? 0;
+    let end = start + 1;
+    while (terms.termIds[end] === termId) {
+      end += 1;
+    }
+    yield [termId, start, end];
+    start = end;
+  }
+}
+
+/** Where each term's postings start, plus the total at `termCount`. */
+function computeOffsets(
+  documents: readonly (DocumentTerms | undefined)[],
+  termCount: number
+): Uint32Array {
+  const offsets = new Uint32Array(termCount + 1);
+  for (const terms of documents) {
+    for (const termId of terms ? uniqueTermIds(terms) : []) {
+      offsets[termId + 1] = (offsets[termId + 1] ?? 0) + 1;
+    }
+  }
+  for (let termId = 0; termId < termCount; termId++) {
+    offsets[termId + 1] = (offsets[termId + 1] ?? 0) + (offsets[termId] ?? 0);
+  }
+  return offsets;
+}
+
+/**
+ * Builds the posting lists of `documents`, indexed by doc id, in two passes:
+ * one sizing each list and one filling them. `impactOf` scores the entries
+ * `[start, end)` of one term in one document.
+ */
+export function buildPostingLists(
+  documents: readonly (DocumentTerms | undefined)[],
+  termCount: number,
+  impactOf: (docId: number, start: number, end: number) => number
+): PostingLists {
+  const offsets = computeOffsets(documents, termCount);
+  const total = offsets[termCount] ?? 0;
+  const lists: PostingLists = {
+    offsets,
+    docIds: new Uint32Array(total),
+    impacts: new Float32Array(total),
+    maxImpacts: new Float32Array(termCount),
+  };
+  const cursors = offsets.slice(0, termCount);
+  for (const [docId, terms] of documents.entries()) {
+    for (const [termId, start, end] of terms ? termRanges(terms) : []) {
+      const impact = impactOf(docId, start, end);
+      const position = cursors[termId] ?? 0;
+      lists.docIds[position] = docId;
+      lists.impacts[position] = impact;
+      lists.maxImpacts[termId] = Math.max(
+        lists.maxImpacts[termId] ?? 0,
+        impact
+      );
+      cursors[termId] = position + 1;
+    }
+  }
+  return lists;
+}
+
+/** Position of `docId` in the postings of `termId`, or -1. */
+export function findPosting(
+  lists: PostingLists,
+  termId: number,
+  docId: number
+): number {
+  let low = lists.offsets[termId] ?? 0;
+  let high = lists.offsets[termId + 1] ?? low;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    const candidate = lists.docIds[middle] ?? 0;
+    if (candidate === docId) {
+      return middle;
+    }
+    if (candidate < docId) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return -1;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { boundedEditDistance, FuzzyVocabulary } from "./fuzzy-vocabulary";
+
+describe("boundedEditDistance", () => {
+  it("counts substitutions, insertions and deletions", () => {
+    expect(boundedEditDistance("react", "reakt", 2)).toBe(1);
+    expect(boundedEditDistance("react", "reactt", 2)).toBe(1);
+    expect(boundedEditDistance("react", "rect", 2)).toBe(1);
+    const kittenToSitting = 3;
+    expect(boundedEditDistance("kitten", "sitting", kittenToSitting)).toBe(
+      kittenToSitting
+    );
+  });
+
+  it("counts adjacent transpositions as one edit", () => {
+    expect(boundedEditDistance("react", "raect", 2)).toBe(1);
+  });
+
+  it("stops at the bound", () => {
+    expect(boundedEditDistance("react", "angular", 1)).toBe(2);
+    const maxDistance = 2;
+    expect(boundedEditDistance("a", "abcdef", maxDistance)).toBe(
+      maxDistance + 1
+    );
+  });
+
+  it("treats surrogate pairs as single characters", () => {
+    expect(boundedEditDistance("🚀rocket", "🛸rocket", 1)).toBe(1);
+  });
+});
+
+describe("FuzzyVocabulary", () => {
+  const vocabulary = new FuzzyVocabulary([
+    "typescript",
+    "javascript",
+    "react",
+    "redux",
+    "router",
+  ]);
+
+  it("finds terms within the edit distance", () => {
+    expect(vocabulary.candidates("typescirpt", 2)).toEqual([
+      { term: "typescript", distance: 1 },
+    ]);
+    expect(vocabulary.candidates("raect", 2).map(({ term }) => term)).toEqual([
+      "react",
+    ]);
+  });
+
+  it("orders candidates by distance, then alphabetically", () => {
+    expect(vocabulary.candidates("redct", 2)).toEqual([
+      { term: "react", distance: 1 },
+      { term: "redux", distance: 2 },
+    ]);
+    expect(vocabulary.candidates("reduct", 2)).toEqual([
+      { term: "react", distance: 2 },
+      { term: "redux", distance: 2 },
+    ]);
+  });
+
+  it("never returns the term itself", () => {
+    expect(vocabulary.candidates("react", 1)).toEqual([]);
+  });
+
+  it("returns nothing without an edit budget", () => {
+    expect(vocabulary.candidates("reakt", 0)).toEqual([]);
+  });
+});
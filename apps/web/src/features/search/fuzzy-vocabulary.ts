@@ -0,0 +1,129 @@
+export type FuzzyCandidate = {
+  term: string;
+  distance: number;
+};
+
+const TRIGRAM_SIZE = 3;
+const TRIGRAM_PADDING = "$";
+// A single edit changes at most this many of a term's padded trigrams; a
+// transposition can touch four.
+const TRIGRAMS_PER_EDIT = 4;
+
+function toTrigrams(term: string): Set<string> {
+  const characters = Array.from(`${TRIGRAM_PADDING}${term}${TRIGRAM_PADDING}`);
+  const trigrams = new Set<string>();
+  for (let index = 0; index + TRIGRAM_SIZE <= characters.length; index++) {
+    trigrams.add(characters.slice(index, index + TRIGRAM_SIZE).join(""));
+  }
+  return trigrams;
+}
+
+/**
+ * Edit distance counting adjacent transpositions as one edit (optimal string
+ * alignment), since swapped letters are the most common typo. Gives up once
+ * it exceeds `maxDistance`, returning `maxDistance + 1` in that case.
+ */
+export function boundedEditDistance(
+  left: string,
+  right: string,
+  maxDistance: number
+): number {
+  const a = Array.from(left);
+  const b = Array.from(right);
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let row = 1; row <= a.length; row++) {
+    const current = [row];
+    let rowMinimum = row;
+    for (let column = 1; column <= b.length; column++) {
+      const cost = a[row - 1] === b[column - 1] ? 0 : 1;
+      let value = Math.min(
+        previous[column] + 1,
+        current[column - 1] + 1,
+        previous[column - 1] + cost
+      );
+      const isTransposition =
+        row > 1 &&
+        column > 1 &&
+        a[row - 1] === b[column - 2] &&
+        a[row - 2] === b[column - 1];
+      if (isTransposition) {
+        value = Math.min(value, beforePrevious[column - 2] + 1);
+      }
+      current.push(value);
+      rowMinimum = Math.min(rowMinimum, value);
+    }
+    if (rowMinimum > maxDistance) {
+      return maxDistance + 1;
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+  return Math.min(previous[b.length], maxDistance + 1);
+}
+
+/**
+ * Finds vocabulary terms within a small edit distance of a query term. A
+ * trigram index narrows the vocabulary down to terms sharing enough trigrams
+ * before the exact distance is computed.
+ */
+export class FuzzyVocabulary {
+  private readonly postings = new Map<string, Set<string>>();
+
+  constructor(terms: Iterable<string> = []) {
+    for (const term of terms) {
+      this.add(term);
+    }
+  }
+
+  add(term: string): void {
+    for (const trigram of toTrigrams(term)) {
+      let terms = this.postings.get(trigram);
+      if (!terms) {
+        terms = new Set();
+        this.postings.set(trigram, terms);
+      }
+      terms.add(term);
+    }
+  }
+
+  /**
+   * Returns terms within `maxDistance` edits, closest first. The term itself
+   * is never returned.
+   */
+  candidates(term: string, maxDistance: number): FuzzyCandidate[] {
+    if (maxDistance <= 0) {
+      return [];
+    }
+    const trigrams = toTrigrams(term);
+    const minShared = Math.max(
+      1,
+      trigrams.size - TRIGRAMS_PER_EDIT * maxDistance
+    );
+
+    const shared = new Map<string, number>();
+    for (const trigram of trigrams) {
+      for (const candidate of this.postings.get(trigram) ?? []) {
+        shared.set(candidate, (shared.get(candidate) ?? 0) + 1);
+      }
+    }
+
+    const matches: FuzzyCandidate[] = [];
+    for (const [candidate, count] of shared.entries()) {
+      if (count < minShared || candidate === term) {
+        continue;
+      }
+      const distance = boundedEditDistance(term, candidate, maxDistance);
+      if (distance <= maxDistance) {
+        matches.push({ term: candidate, distance });
+      }
+    }
+    return matches.sort(
+      (a, b) => a.distance - b.distance || a.term.localeCompare(b.term)
+    );
+  }
+}
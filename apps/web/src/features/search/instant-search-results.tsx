@@ -0,0 +1,87 @@
+import { StarIcon } from "@primer/octicons-react";
+import { Separator } from "@/components/ui/separator";
+import { cn } from "@/lib/utils";
+import type { RepositorySearchResult } from "./repository-search-engine";
+
+const MAX_MATCHED_TOKENS = 5;
+
+function InstantResult({ result }: { result: RepositorySearchResult }) {
+  const { repository, matchedTokens } = result;
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-center gap-2">
+        <a
+          className="hover:underline"
+          href={`https://github.com/${repository.owner}/${repository.name}`}
+          rel="noopener noreferrer"
+          target="_blank"
+        >
+          <span className="font-semibold text-sm">
+            {repository.owner}/{repository.name}
+          </span>
+        </a>
+        <div className="flex items-center gap-1 text-muted-foreground text-xs">
+          <StarIcon size={12} />
+          <span>{repository.stargazerCount.toLocaleString()}</span>
+        </div>
+      </div>
+      {repository.description ? (
+        <p className="line-clamp-2 text-muted-foreground text-xs">
+          {repository.description}
+        </p>
+      ) : null}
+      <div className="flex flex-wrap gap-1.5">
+        {matchedTokens.slice(0, MAX_MATCHED_TOKENS).map((token) => (
+          <span
+            className={cn(
+              "rounded-md",
+              "bg-primary/10",
+              "px-2 py-0.5",
+              "font-mono text-primary text-xs"
+            )}
+            key={token}
+          >
+            {token}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Live results for the typed query, searched locally without the LLM, so
+ * they cost nothing against the daily limit.
+ */
+export function InstantSearchResults({
+  results,
+}: {
+  results: RepositorySearchResult[];
+}) {
+  return (
+    <section className="grid gap-3 rounded-3xl border border-dashed p-6">
+      <div className="grid gap-1 text-muted-foreground text-xs">
+        <h2>
+          Instant results from your stars. Expand with AI to search by meaning.
+        </h2>
+        <p>
+          Narrow with <code>owner:vercel</code>, <code>"exact phrase"</code>,{" "}
+          <code>+required</code> or <code>-excluded</code>.
+        </p>
+      </div>
+      {results.length === 0 ? (
+        <p className="py-2 text-center text-muted-foreground text-sm">
+          No starred repositories match this search.
+        </p>
+      ) : (
+        results.map((result, index) => (
+          <div className="flex flex-col gap-3" key={result.id}>
+            {index > 0 && <Separator />}
+            <InstantResult result={result} />
+          </div>
+        ))
+      )}
+    </section>
+  );
+}
@@ -1,4 +1,4 @@
-import { ArrowUp } from "lucide-react";
+import { Sparkles } from "lucide-react";
 import { AnimatePresence, motion } from "motion/react";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
@@ -10,14 +10,36 @@ import {
 } from "@/components/ui/prompt-input";
 import { Spinner } from "@/components/ui/spinner";
 import { cn } from "@/lib/utils";
-import { useGithubStarredRepositories } from "../github/use-github-starred-repositories";
+import { InstantSearchResults } from "./instant-search-results";
+import { useSharedRepositorySearch } from "./repository-search-provider";
+import { SearchFilterBar } from "./search-filter-bar";
+import {
+  buildSearchFilters,
+  DEFAULT_FILTER_SELECTION,
+  type SearchFilterSelection,
+} from "./search-filter-presets";
+import type { SearchFilters, SearchSort } from "./search-filters";
 import { SearchHistoryItem } from "./search-history-item";
 import { usePromptSearchState } from "./use-prompt-search";
 import { useLikedRepositories } from "./use-repository-like";
-import { useRepositorySearch } from "./use-repository-search";
-import { useSearchHistory } from "./use-search-history";
+import type {
+  RepositoryDiagnoseFn,
+  RepositoryExplainFn,
+  RepositorySearchFn,
+  RepositorySimilarFn,
+} from "./use-repository-search";
+import {
+  type SearchHistoryItem as HistoryItem,
+  useSearchHistory,
+} from "./use-search-history";
+import {
+  usePaginatedSearchResults,
+  useSearchResults,
+} from "./use-search-results";
 
 const HISTORY_ITEM_ANIMATION_DURATION = 0.3;
+const HISTORY_RESULT_LIMIT = 20;
+const INSTANT_RESULT_LIMIT = 10;
 
 function getLocalMidnightUTC(): string {
   const now = new Date();
@@ -39,6 +61,83 @@ function getLocalMidnightUTC(): string {
   });
 }
 
+function getPlaceholder(hasReachedLimit: boolean): string {
+  return hasReachedLimit
+    ? "Daily AI limit reached. Instant search still works..."
+    : "Search your starred repositories, e.g. owner:vercel -deprecated...";
+}
+
+function SearchHistoryEntry({
+  item,
+  search,
+  explain,
+  diagnose,
+  findSimilar,
+  isSearchReady,
+  isInitiallyExpanded,
+  likedReposSet,
+  onDelete,
+  filters,
+  sort,
+}: {
+  item: HistoryItem;
+  search: RepositorySearchFn;
+  explain: RepositoryExplainFn;
+  diagnose: RepositoryDiagnoseFn;
+  findSimilar: RepositorySimilarFn;
+  isSearchReady: boolean;
+  isInitiallyExpanded: boolean;
+  likedReposSet: Set<string>;
+  onDelete: (id: string) => void;
+  filters?: SearchFilters;
+  sort: SearchSort;
+}) {
+  const {
+    results: searchResults,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+    now,
+  } = usePaginatedSearchResults({
+    search,
+    keywords: item.keywords,
+    isReady: isSearchReady,
+    limit: HISTORY_RESULT_LIMIT,
+    filters,
+    sort,
+  });
+  const diagnoseRepository = useCallback(
+    (id: string) =>
+      diagnose(id, item.keywords, {
+        limit: HISTORY_RESULT_LIMIT,
+        filters,
+        sort,
+      }),
+    [diagnose, item.keywords, filters, sort]
+  );
+  const explainRepository = useCallback(
+    (id: string, keywords: string[]) => explain(id, keywords, now),
+    [explain, now]
+  );
+
+  return (
+    <SearchHistoryItem
+      diagnose={diagnoseRepository}
+      explain={explainRepository}
+      findSimilar={findSimilar}
+      hasMoreResults={hasMore}
+      isInitiallyExpanded={isInitiallyExpanded}
+      isLoadingMoreResults={isLoadingMore}
+      isSearchReady={isSearchReady}
+      item={item}
+      likedReposSet={likedReposSet}
+      onDelete={onDelete}
+      onShowMoreResults={loadMore}
+      searchResults={searchResults}
+    />
+  );
+}
+
 export function PromptSearch() {
   const state = usePromptSearchState();
   const {
@@ -50,23 +149,42 @@ export function PromptSearch() {
     searchesInLast24Hours,
     dailyLimit,
   } = useSearchHistory();
-  const github = useGithubStarredRepositories();
-  const { search: searchRepositories, isReady } = useRepositorySearch({
-    repositories: github.repositories,
-  });
-  const [latestQueryId, setLatestQueryId] = useState<string | null>(null);
-  const [isInitialLoad, setIsInitialLoad] = useState(true);
-
   // 전역 좋아요 목록 (1번 요청으로 모든 검색히스토리에서 사용)
   const { data: likedRepos } = useLikedRepositories();
-  const likedReposSet = useMemo(() => {
-    if (!likedRepos) {
-      return new Set<string>();
-    }
-    return new Set(
-      likedRepos.map((like) => `${like.likedOwner}/${like.likedName}`)
-    );
-  }, [likedRepos]);
+  const likedReposSet = useMemo(
+    () =>
+      new Set(
+        likedRepos?.map((like) => `${like.likedOwner}/${like.likedName}`)
+      ),
+    [likedRepos]
+  );
+  const {
+    search: searchRepositories,
+    searchQuery,
+    similar,
+    explain,
+    diagnose,
+    isReady,
+  } = useSharedRepositorySearch();
+  const [latestQueryId, setLatestQueryId] = useState<string | null>(null);
+  const [isInitialLoad, setIsInitialLoad] = useState(true);
+  const [filterSelection, setFilterSelection] = useState<SearchFilterSelection>(
+    DEFAULT_FILTER_SELECTION
+  );
+  const searchFilters = useMemo(
+    () => buildSearchFilters(filterSelection),
+    [filterSelection]
+  );
+  const instantResults = useSearchResults({
+    search: searchQuery,
+    keywords: state.instantQuery,
+    isReady,
+    limit: INSTANT_RESULT_LIMIT,
+    filters: searchFilters,
+    sort: filterSelection.sort,
+  });
+  const showInstantResults =
+    isReady && state.instantQuery !== null && !state.isGenerating;
 
   // Mark initial load as complete when history is loaded
   useEffect(() => {
@@ -101,10 +219,13 @@ export function PromptSearch() {
     state.handleSubmit();
   }, [state]);
 
-  const actionTooltip = state.isGenerating ? "Stop generation" : "Send message";
+  const actionTooltip = state.isGenerating
+    ? "Stop generation"
+    : "Expand with AI";
   const showSpinner = state.showKeywordSpinner;
 
-  const isInputDisabled = hasReachedLimit || state.isGenerating;
+  // Instant search costs no quota, so typing stays open at the daily limit.
+  const isInputDisabled = state.isGenerating;
 
   return (
     <div className="grid gap-6">
@@ -114,8 +235,9 @@ export function PromptSearch() {
             "rounded-md border border-destructive/40 bg-destructive/10 p-3 text-destructive text-sm"
           )}
         >
-          Daily search limit reached ({searchesInLast24Hours}/{dailyLimit}).
-          Resets at {getLocalMidnightUTC()} (UTC 00:00).
+          Daily AI search limit reached ({searchesInLast24Hours}/{dailyLimit}).
+          Instant search still works. Resets at {getLocalMidnightUTC()} (UTC
+          00:00).
         </div>
       )}
       <PromptInput
@@ -127,11 +249,7 @@ export function PromptSearch() {
       >
         <PromptInputTextarea
           disabled={isInputDisabled}
-          placeholder={
-            hasReachedLimit
-              ? "Daily search limit reached..."
-              : "Search your starred repositories..."
-          }
+          placeholder={getPlaceholder(hasReachedLimit)}
         />
         <PromptInputActions className="justify-between pt-2">
           {state.isQueryTooLong ? (
@@ -139,7 +257,9 @@ export function PromptSearch() {
               Query too long ({state.queryLength}/{state.maxQueryLength})
             </span>
           ) : (
-            <span />
+            <span className="text-muted-foreground text-xs">
+              {state.repositoryStatus}
+            </span>
           )}
           <PromptInputAction
             tooltip={hasReachedLimit ? "Daily limit reached" : actionTooltip}
@@ -151,7 +271,7 @@ export function PromptSearch() {
               size="icon"
               variant="default"
             >
-              <ArrowUp className="size-5" />
+              <Sparkles className="size-5" />
             </Button>
           </PromptInputAction>
         </PromptInputActions>
@@ -215,44 +335,52 @@ export function PromptSearch() {
         ) : null}
       </AnimatePresence>
 
+      {showInstantResults || history.length > 0 ? (
+        <SearchFilterBar
+          onChange={setFilterSelection}
+          value={filterSelection}
+        />
+      ) : null}
+
+      {showInstantResults ? (
+        <InstantSearchResults results={instantResults} />
+      ) : null}
+
       {history.length > 0 && (
         <div className="grid gap-4">
           <div className="grid gap-3">
             <AnimatePresence mode="popLayout">
-              {history.map((item, index) => {
-                const historyResults = isReady
-                  ? searchRepositories(item.keywords, { limit: 20 })
-                  : [];
-
-                return (
-                  <motion.div
-                    animate={{ opacity: 1, y: 0, scale: 1 }}
-                    exit={{ opacity: 0, x: -100, scale: 0.95 }}
-                    initial={
-                      isInitialLoad
-                        ? false
-                        : { opacity: 0, y: -20, scale: 0.95 }
-                    }
-                    key={item.id}
-                    layout
-                    transition={{
-                      duration: isInitialLoad
-                        ? 0
-                        : HISTORY_ITEM_ANIMATION_DURATION,
-                      delay: index === 0 && item.id === latestQueryId ? 0 : 0,
-                    }}
-                  >
-                    <SearchHistoryItem
-                      isInitiallyExpanded={item.id === latestQueryId}
-                      isSearchReady={isReady}
-                      item={item}
-                      likedReposSet={likedReposSet}
-                      onDelete={deleteQuery}
-                      searchResults={historyResults}
-                    />
-                  </motion.div>
-                );
-              })}
+              {history.map((item, index) => (
+                <motion.div
+                  animate={{ opacity: 1, y: 0, scale: 1 }}
+                  exit={{ opacity: 0, x: -100, scale: 0.95 }}
+                  initial={
+                    isInitialLoad ? false : { opacity: 0, y: -20, scale: 0.95 }
+                  }
+                  key={item.id}
+                  layout
+                  transition={{
+                    duration: isInitialLoad
+                      ? 0
+                      : HISTORY_ITEM_ANIMATION_DURATION,
+                    delay: index === 0 && item.id === latestQueryId ? 0 : 0,
+                  }}
+                >
+                  <SearchHistoryEntry
+                    diagnose={diagnose}
+                    explain={explain}
+                    filters={searchFilters}
+                    findSimilar={similar}
+                    isInitiallyExpanded={item.id === latestQueryId}
+                    isSearchReady={isReady}
+                    item={item}
+                    likedReposSet={likedReposSet}
+                    onDelete={deleteQuery}
+                    search={searchRepositories}
+                    sort={filterSelection.sort}
+                  />
+                </motion.div>
+              ))}
             </AnimatePresence>
           </div>
         </div>
@@ -0,0 +1,143 @@
+import type { StarredRepository } from "@i-starred-it/api/services/github";
+import { describe, expect, it } from "vitest";
+import {
+  compareConfigs,
+  type EvaluationCase,
+  evaluateRanking,
+  ndcgAtK,
+  recallAtK,
+  reciprocalRank,
+  toEvaluationCases,
+} from "./ranking-evaluation";
+import { RepositorySearchEngine } from "./repository-search-engine";
+
+const createMockRepository = (
+  owner: string,
+  name: string,
+  description: string | null = null
+): StarredRepository => ({
+  owner,
+  name,
+  description,
+  readme: null,
+  stargazerCount: 100,
+  forkCount: 10,
+  pushedAt: "2024-06-01T00:00:00Z",
+  updatedAt: "2024-06-01T00:00:00Z",
+  starredAt: "2024-06-01T00:00:00Z",
+});
+
+const repositories = [
+  createMockRepository("facebook", "react", "A JavaScript library for UIs"),
+  createMockRepository("vuejs", "core", "Progressive JavaScript framework"),
+  createMockRepository("rust-lang", "rust", "Systems programming language"),
+];
+
+const HALF = 0.5;
+const THIRD_RANK = 3;
+
+describe("ranking metrics", () => {
+  const ranked = ["a", "b", "c", "d"];
+
+  it("computes the reciprocal rank of the first relevant result", () => {
+    expect(reciprocalRank(ranked, new Set(["c", "d"]))).toBe(1 / THIRD_RANK);
+    expect(reciprocalRank(ranked, new Set(["z"]))).toBe(0);
+  });
+
+  it("computes recall at a cutoff", () => {
+    expect(recallAtK(ranked, new Set(["a", "d"]), 2)).toBe(HALF);
+    expect(recallAtK(ranked, new Set(["a", "d"]), ranked.length)).toBe(1);
+    expect(recallAtK(ranked, new Set(), 2)).toBe(0);
+  });
+
+  it("computes binary NDCG at a cutoff", () => {
+    expect(ndcgAtK(ranked, new Set(["a"]), 1)).toBe(1);
+    expect(ndcgAtK(ranked, new Set(["b"]), 2)).toBeCloseTo(
+      1 / Math.log2(THIRD_RANK)
+    );
+    expect(ndcgAtK(ranked, new Set(["d"]), 2)).toBe(0);
+  });
+});
+
+describe("toEvaluationCases", () => {
+  it("maps stored cases to repository ids", () => {
+    expect(
+      toEvaluationCases([
+        {
+          searchQueryId: "q1",
+          originalQuery: "ui library",
+          keywords: ["ui", "library"],
+          liked: [{ owner: "facebook", name: "react", likedRank: 1 }],
+        },
+      ])
+    ).toEqual([
+      { id: "q1", keywords: ["ui", "library"], relevant: ["facebook/react"] },
+    ]);
+  });
+});
+
+describe("evaluateRanking", () => {
+  const engine = new RepositorySearchEngine();
+  for (const repository of repositories) {
+    engine.add(repository);
+  }
+  engine.consolidate();
+
+  it("averages metrics over cases and skips missing repositories", () => {
+    const cases: EvaluationCase[] = [
+      {
+        id: "q1",
+        keywords: ["javascript", "library"],
+        relevant: ["facebook/react"],
+      },
+      { id: "q2", keywords: ["systems"], relevant: ["rust-lang/rust"] },
+      { id: "q3", keywords: ["anything"], relevant: ["gone/missing"] },
+    ];
+
+    const metrics = evaluateRanking(engine, cases, { cutoffs: [1, 2] });
+
+    expect(metrics.caseCount).toBe(2);
+    expect(metrics.missingCount).toBe(1);
+    expect(metrics.depth).toBe(2);
+    expect(metrics.mrr).toBe(1);
+    expect(metrics.recall[1]).toBe(1);
+    expect(metrics.ndcg[2]).toBe(1);
+  });
+
+  it("matches liked ids regardless of case", () => {
+    const metrics = evaluateRanking(engine, [
+      { id: "q1", keywords: ["systems"], relevant: ["Rust-Lang/Rust"] },
+    ]);
+
+    expect(metrics.missingCount).toBe(0);
+    expect(metrics.mrr).toBe(1);
+  });
+
+  it("scores cases without any hit as zero", () => {
+    const metrics = evaluateRanking(engine, [
+      { id: "q1", keywords: ["framework"], relevant: ["rust-lang/rust"] },
+    ]);
+
+    expect(metrics.mrr).toBe(0);
+    expect(metrics.recall[1]).toBe(0);
+  });
+});
+
+describe("compareConfigs", () => {
+  it("evaluates each named config against the same cases", () => {
+    const results = compareConfigs(
+      repositories,
+      [{ id: "q1", keywords: ["rust"], relevant: ["rust-lang/rust"] }],
+      { default: {}, "no-priors": { priors: { mode: "none" } } }
+    );
+
+    expect(results.map((result) => result.name).sort()).toEqual([
+      "default",
+      "no-priors",
+    ]);
+    for (const result of results) {
+      expect(result.metrics.caseCount).toBe(1);
+      expect(result.metrics.mrr).toBe(1);
+    }
+  });
+});
@@ -0,0 +1,192 @@
+import type { StarredRepository } from "@i-starred-it/api/services/github";
+import type { RankingEvaluationCase } from "@i-starred-it/api/services/likes";
+import {
+  type EngineConfigOverrides,
+  RepositorySearchEngine,
+} from "./repository-search-engine";
+
+/**
+ * What the evaluation script reads: the corpus and liked searches of one
+ * user, exported together from the stored data dialog.
+ */
+export type RankingEvaluationFixture = {
+  /** ISO time of the export, which the recency priors are measured from. */
+  exportedAt: string;
+  repositories: StarredRepository[];
+  cases: RankingEvaluationCase[];
+};
+
+export type EvaluationCase = {
+  id: string;
+  keywords: string[];
+  /** Ids of the repositories liked for this query. */
+  relevant: string[];
+};
+
+export type RankingMetrics = {
+  /** Cases with at least one relevant repository in the corpus. */
+  caseCount: number;
+  /** Liked repositories that are missing from the corpus and were skipped. */
+  missingCount: number;
+  /** Mean reciprocal rank of the first relevant result within `depth`. */
+  mrr: number;
+  recall: Record<number, number>;
+  ndcg: Record<number, number>;
+  depth: number;
+};
+
+export type ConfigEvaluation = {
+  name: string;
+  metrics: RankingMetrics;
+};
+
+type EvaluationOptions = {
+  cutoffs?: number[];
+  /**
+   * Epoch milliseconds the recency priors are measured from. Fix it so the
+   * same fixture scores the same from one day to the next.
+   */
+  now?: number;
+};
+
+const SHORTLIST_SIZE = 5;
+const PAGE_SIZE = 10;
+const DEEP_PAGE_SIZE = 20;
+const DEFAULT_CUTOFFS = [1, SHORTLIST_SIZE, PAGE_SIZE, DEEP_PAGE_SIZE];
+
+export function reciprocalRank(
+  ranked: string[],
+  relevant: Set<string>
+): number {
+  const index = ranked.findIndex((id) => relevant.has(id));
+  return index === -1 ? 0 : 1 / (index + 1);
+}
+
+export function recallAtK(
+  ranked: string[],
+  relevant: Set<string>,
+  k: number
+): number {
+  if (relevant.size === 0) {
+    return 0;
+  }
+  const found = ranked.slice(0, k).filter((id) => relevant.has(id)).length;
+  return found / relevant.size;
+}
+
+/**
+ * NDCG with binary gains: a liked repository counts 1 wherever it ranks,
+ * discounted by `log2(rank + 1)`, and the ideal ranking puts all of them
+ * first.
+ */
+export function ndcgAtK(
+  ranked: string[],
+  relevant: Set<string>,
+  k: number
+): number {
+  const discount = (index: number) => 1 / Math.log2(index + 2);
+  let dcg = 0;
+  for (const [index, id] of ranked.slice(0, k).entries()) {
+    if (relevant.has(id)) {
+      dcg += discount(index);
+    }
+  }
+  let idealDcg = 0;
+  for (let index = 0; index < Math.min(relevant.size, k); index++) {
+    idealDcg += discount(index);
+  }
+  return idealDcg > 0 ? dcg / idealDcg : 0;
+}
+
+export function toEvaluationCases(
+  cases: RankingEvaluationCase[]
+): EvaluationCase[] {
+  return cases.map((evaluationCase) => ({
+    id: evaluationCase.searchQueryId,
+    keywords: evaluationCase.keywords,
+    relevant: evaluationCase.liked.map(({ owner, name }) => `${owner}/${name}`),
+  }));
+}
+
+function average(values: number[]): number {
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0;
+}
+
+/**
+ * Replays every case against `engine` and averages the metrics over the
+ * cases. Results are retrieved down to the largest cutoff, so MRR ignores
+ * hits ranked below it. Liked ids match case-insensitively, like likes do.
+ */
+export function evaluateRanking(
+  engine: RepositorySearchEngine,
+  cases: EvaluationCase[],
+  { cutoffs = DEFAULT_CUTOFFS, now }: EvaluationOptions = {}
+): RankingMetrics {
+  const depth = Math.max(...cutoffs);
+  const reciprocalRanks: number[] = [];
+  const recalls = new Map<number, number[]>(cutoffs.map((k) => [k, []]));
+  const ndcgs = new Map<number, number[]>(cutoffs.map((k) => [k, []]));
+  const indexedIds = new Map(engine.ids().map((id) => [id.toLowerCase(), id]));
+  let missingCount = 0;
+
+  for (const evaluationCase of cases) {
+    const relevant = new Set<string>();
+    for (const id of evaluationCase.relevant) {
+      const indexedId = indexedIds.get(id.toLowerCase());
+      if (indexedId) {
+        relevant.add(indexedId);
+      }
+    }
+    missingCount += evaluationCase.relevant.length - relevant.size;
+    if (relevant.size === 0) {
+      continue;
+    }
+
+    const ranked = engine
+      .search(evaluationCase.keywords, { limit: depth, now })
+      .map((result) => result.id);
+    reciprocalRanks.push(reciprocalRank(ranked, relevant));
+    for (const k of cutoffs) {
+      recalls.get(k)?.push(recallAtK(ranked, relevant, k));
+      ndcgs.get(k)?.push(ndcgAtK(ranked, relevant, k));
+    }
+  }
+
+  const summarize = (values: Map<number, number[]>) =>
+    Object.fromEntries(
+      Array.from(values.entries()).map(([k, list]) => [k, average(list)])
+    );
+
+  return {
+    caseCount: reciprocalRanks.length,
+    missingCount,
+    mrr: average(reciprocalRanks),
+    recall: summarize(recalls),
+    ndcg: summarize(ndcgs),
+    depth,
+  };
+}
+
+/**
+ * Indexes `repositories` once per named config and evaluates each against
+ * the same cases, best MRR first.
+ */
+export function compareConfigs(
+  repositories: StarredRepository[],
+  cases: EvaluationCase[],
+  configs: Record<string, EngineConfigOverrides>,
+  options?: EvaluationOptions
+): ConfigEvaluation[] {
+  return Object.entries(configs)
+    .map(([name, overrides]) => {
+      const engine = new RepositorySearchEngine(overrides);
+      for (const repository of repositories) {
+        engine.add(repository);
+      }
+      engine.consolidate();
+      return { name, metrics: evaluateRanking(engine, cases, options) };
+    })
+    .sort((a, b) => b.metrics.mrr - a.metrics.mrr);
+}
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import { preprocessReadme } from "./readme-preprocessor";
+
+const BADGE_HEAVY_README = `<p align="center">
+  <img src="https://example.com/logo.png" alt="logo" width="120">
+</p>
+
+# Zustand
+
+[![Build Status](https://img.shields.io/github/actions/workflow/status/pmndrs/zustand/test.yml)](https://github.com/pmndrs/zustand/actions)
+[![npm][npm-badge]][npm-url]
+
+A small, fast and scalable bearbones state management solution.
+Has a comfy API based on hooks.
+
+<!-- a comment about typescript -->
+
+## Installation
+
+\`\`\`bash
+npm install zustand
+\`\`\`
+
+### From source
+
+Clone the repository.
+
+## Usage
+
+Create a store with \`create\`, see the [docs](https://docs.pmnd.rs/zustand).
+
+\`\`\`tsx
+const useBearStore = create((set) => ({ bears: 0 }))
+\`\`\`
+
+Visit https://zustand.docs.pmnd.rs for more.
+
+## License
+
+MIT
+
+[npm-badge]: https://img.shields.io/npm/v/zustand
+[npm-url]: https://www.npmjs.com/package/zustand
+`;
+
+describe("preprocessReadme", () => {
+  const sections = preprocessReadme(BADGE_HEAVY_README);
+
+  it("drops badges, images and link targets", () => {
+    expect(sections.body).not.toContain("shields");
+    expect(sections.body).not.toContain("logo");
+    expect(sections.body).not.toContain("npm-badge");
+    expect(sections.body).not.toContain("https");
+    expect(sections.body).toContain("see the docs");
+  });
+
+  it("drops HTML tags and comments", () => {
+    expect(sections.body).not.toContain("align");
+    expect(sections.body).not.toContain("typescript");
+  });
+
+  it("drops fenced code", () => {
+    expect(sections.body).not.toContain("useBearStore");
+  });
+
+  it("skips install and license sections including subsections", () => {
+    expect(sections.body).not.toContain("npm install");
+    expect(sections.body).not.toContain("Clone the repository");
+    expect(sections.body).not.toContain("MIT");
+    expect(sections.headings).not.toContain("Installation");
+  });
+
+  it("resumes after a skipped section ends", () => {
+    expect(sections.body).toContain("Create a store");
+  });
+
+  it("collects headings", () => {
+    expect(sections.headings.split("\n")).toEqual(["Zustand", "Usage"]);
+  });
+
+  it("uses the first paragraph of prose as the intro", () => {
+    expect(sections.intro).toBe(
+      "A small, fast and scalable bearbones state management solution. Has a comfy API based on hooks."
+    );
+  });
+
+  it("keeps only the text of emphasis and inline code", () => {
+    const { body } = preprocessReadme(
+      "Foo is a **fast** _tiny_ ~~big~~ date library with `format()`."
+    );
+
+    expect(body).toBe("Foo is a fast tiny big date library with format().");
+  });
+
+  it("leaves underscores inside words alone", () => {
+    expect(preprocessReadme("Use snake_case and __init__ names").body).toBe(
+      "Use snake_case and init names"
+    );
+  });
+
+  it("recognizes setext headings", () => {
+    const { headings, intro } = preprocessReadme(
+      "Dayjs\n=====\n\nA tiny date library.\n\nUsage\n-----\n\nCall it."
+    );
+
+    expect(headings.split("\n")).toEqual(["Dayjs", "Usage"]);
+    expect(intro).toBe("A tiny date library.");
+  });
+
+  it("skips setext install sections", () => {
+    const { body } = preprocessReadme(
+      "Installation\n------------\n\nRun the installer.\n\nUsage\n-----\n\nCall it."
+    );
+
+    expect(body).toBe("Usage\nCall it.");
+  });
+
+  it("drops indented code but keeps list continuations", () => {
+    const { body } = preprocessReadme(
+      [
+        "Parses dates.",
+        "",
+        "    const date = dayjs()",
+        "    date.format()",
+        "",
+        "- Immutable",
+        "",
+        "    Every call returns a new instance.",
+      ].join("\n")
+    );
+
+    expect(body).not.toContain("dayjs()");
+    expect(body).toContain("Every call returns a new instance.");
+  });
+
+  it("handles plain text without Markdown", () => {
+    expect(preprocessReadme("just some words")).toEqual({
+      body: "just some words",
+      headings: "",
+      intro: "just some words",
+    });
+  });
+
+  it("returns empty sections for an empty README", () => {
+    expect(preprocessReadme("")).toEqual({ body: "", headings: "", intro: "" });
+  });
+});
@@ -0,0 +1,230 @@
+export type ReadmeSections = {
+  /** Prose with markup, badges, code and boilerplate sections removed. */
+  body: string;
+  headings: string;
+  /** The first paragraph of prose, usually the project's own summary. */
+  intro: string;
+};
+
+type ParserState = {
+  body: string[];
+  headings: string[];
+  intro: string[];
+  fence: string | null;
+  isInIndentedCode: boolean;
+  /** Indented lines continue a list item rather than start code. */
+  isInList: boolean;
+  isAfterBlank: boolean;
+  skippedSectionLevel: number | null;
+  introStatus: "pending" | "collecting" | "done";
+};
+
+const HTML_COMMENT_PATTERN = /<!--[\s\S]*?-->/g;
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})/;
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const SETEXT_UNDERLINE_PATTERN = /^\s{0,3}(=+|-+)\s*$/;
+const INDENTED_LINE_PATTERN = /^(?: {4}|\t)/;
+const LIST_ITEM_PATTERN = /^\s{0,3}(?:[-*+]|\d+[.)])\s/;
+const LINK_DEFINITION_PATTERN = /^\s{0,3}\[[^\]]+\]:\s*\S+/;
+const IMAGE_PATTERN = /!\[[^\]]*\]\([^)]*\)/g;
+const REFERENCE_IMAGE_PATTERN = /!\[[^\]]*\]\[[^\]]*\]/g;
+const LINK_PATTERN = /\[([^\]]*)\]\([^)]*\)/g;
+const REFERENCE_LINK_PATTERN = /\[([^\]]*)\]\[[^\]]*\]/g;
+const HTML_TAG_PATTERN = /<\/?[a-z][^>]*>/gi;
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)\S+/gi;
+const HTML_ENTITY_PATTERN = /&(?:[a-z]+|#\d+);/gi;
+const INLINE_CODE_PATTERN = /(`+)(.+?)\1/g;
+const ASTERISK_EMPHASIS_PATTERN = /(\*{1,3})(?=\S)(.+?)(?<=\S)\1/g;
+// Underscores inside words, as in `snake_case`, are not emphasis.
+const UNDERSCORE_EMPHASIS_PATTERN =
+  /(?<![\p{L}\p{N}_])(_{1,3})(?=\S)(.+?)(?<=\S)\1(?![\p{L}\p{N}_])/gu;
+const STRIKETHROUGH_PATTERN = /~~(?=\S)(.+?)(?<=\S)~~/g;
+const LETTER_PATTERN = /\p{L}/u;
+// Sections that are near-identical across projects and say nothing about what
+// the project does.
+const SKIPPED_SECTION_PATTERN =
+  /^(?:install|installation|installing|setup|license|licence|licensing|contributing|contributors|contribution|sponsors?|backers|changelog|code of conduct)\b/i;
+
+/**
+ * Reduces a line to its readable text: images and badges are dropped, links
+ * keep only their label, emphasis and inline code keep only their text, and
+ * HTML tags, entities and bare URLs are removed.
+ */
+function stripInlineMarkup(line: string): string {
+  return line
+    .replace(IMAGE_PATTERN, " ")
+    .replace(REFERENCE_IMAGE_PATTERN, " ")
+    .replace(LINK_PATTERN, "$1")
+    .replace(REFERENCE_LINK_PATTERN, "$1")
+    .replace(HTML_TAG_PATTERN, " ")
+    .replace(HTML_ENTITY_PATTERN, " ")
+    .replace(URL_PATTERN, " ")
+    .replace(INLINE_CODE_PATTERN, "$2")
+    .replace(ASTERISK_EMPHASIS_PATTERN, "$2")
+    .replace(UNDERSCORE_EMPHASIS_PATTERN, "$2")
+    .replace(STRIKETHROUGH_PATTERN, "$1")
+    .trim();
+}
+
+function endIntro(state: ParserState) {
+  if (state.introStatus === "collecting") {
+    state.introStatus = "done";
+  }
+}
+
+/**
+ * Returns true when the line opened or closed a code fence or sits inside one.
+ */
+function consumeFence(state: ParserState, line: string): boolean {
+  const fence = FENCE_PATTERN.exec(line)?.[1];
+  if (state.fence) {
+    if (fence?.startsWith(state.fence)) {
+      state.fence = null;
+    }
+    return true;
+  }
+  if (fence) {
+    state.fence = fence;
+    endIntro(state);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Returns true when the line is indented code: an indented line after a blank
+ * one, outside a list, and every indented or blank line that follows it.
+ */
+function consumeIndentedCode(state: ParserState, line: string): boolean {
+  const isBlank = line.trim() === "";
+  const isIndented = !isBlank && INDENTED_LINE_PATTERN.test(line);
+  if (state.isInIndentedCode && (isBlank || isIndented)) {
+    return true;
+  }
+  state.isInIndentedCode = isIndented && state.isAfterBlank && !state.isInList;
+  if (state.isInIndentedCode) {
+    endIntro(state);
+  }
+  return state.isInIndentedCode;
+}
+
+function addHeading(state: ParserState, level: number, markup: string) {
+  const text = stripInlineMarkup(markup);
+  endIntro(state);
+
+  if (state.skippedSectionLevel !== null) {
+    if (level > state.skippedSectionLevel) {
+      return;
+    }
+    state.skippedSectionLevel = null;
+  }
+  if (SKIPPED_SECTION_PATTERN.test(text)) {
+    state.skippedSectionLevel = level;
+    return;
+  }
+  if (text) {
+    state.headings.push(text);
+    state.body.push(text);
+  }
+}
+
+function consumeHeading(state: ParserState, line: string): boolean {
+  const match = HEADING_PATTERN.exec(line);
+  if (!match) {
+    return false;
+  }
+  addHeading(state, match[1].length, match[2]);
+  return true;
+}
+
+/**
+ * Returns true when `nextLine` underlines `line` with `=` or `-`, making it a
+ * level 1 or 2 heading.
+ */
+function consumeSetextHeading(
+  state: ParserState,
+  line: string,
+  nextLine: string | undefined
+): boolean {
+  const underline = SETEXT_UNDERLINE_PATTERN.exec(nextLine ?? "")?.[1];
+  if (!underline || line.trim() === "" || LIST_ITEM_PATTERN.test(line)) {
+    return false;
+  }
+  addHeading(state, underline.startsWith("=") ? 1 : 2, line);
+  return true;
+}
+
+function consumeText(state: ParserState, line: string) {
+  if (
+    state.skippedSectionLevel !== null ||
+    LINK_DEFINITION_PATTERN.test(line)
+  ) {
+    return;
+  }
+  const text = stripInlineMarkup(line);
+  if (!LETTER_PATTERN.test(text)) {
+    endIntro(state);
+    return;
+  }
+  state.body.push(text);
+  if (state.introStatus !== "done") {
+    state.introStatus = "collecting";
+    state.intro.push(text);
+  }
+}
+
+function trackBlock(state: ParserState, line: string) {
+  const isBlank = line.trim() === "";
+  if (LIST_ITEM_PATTERN.test(line)) {
+    state.isInList = true;
+  } else if (!(isBlank || INDENTED_LINE_PATTERN.test(line))) {
+    state.isInList = false;
+  }
+  state.isAfterBlank = isBlank;
+}
+
+/**
+ * Splits a Markdown README into the text worth indexing. Fenced and indented
+ * code, badges, link targets, HTML and install, license and contributing
+ * sections are dropped; headings and the first paragraph are also returned
+ * separately so they can be weighted as their own fields.
+ */
+export function preprocessReadme(markdown: string): ReadmeSections {
+  const state: ParserState = {
+    body: [],
+    headings: [],
+    intro: [],
+    fence: null,
+    isInIndentedCode: false,
+    isInList: false,
+    isAfterBlank: true,
+    skippedSectionLevel: null,
+    introStatus: "pending",
+  };
+
+  const lines = markdown.replace(HTML_COMMENT_PATTERN, "").split("\n");
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index] ?? "";
+    if (
+      consumeFence(state, line) ||
+      consumeIndentedCode(state, line) ||
+      consumeHeading(state, line)
+    ) {
+      trackBlock(state, line);
+      continue;
+    }
+    if (consumeSetextHeading(state, line, lines[index + 1])) {
+      // The underline belongs to the heading.
+      index++;
+    } else {
+      consumeText(state, line);
+    }
+    trackBlock(state, lines[index] ?? "");
+  }
+
+  return {
+    body: state.body.join("\n"),
+    headings: state.headings.join("\n"),
+    intro: state.intro.join(" "),
+  };
+}
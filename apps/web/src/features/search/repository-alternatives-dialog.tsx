@@ -0,0 +1,207 @@
+import type { StarredRepository } from "@i-starred-it/api/services/github";
+import { GitCompareIcon, StarIcon } from "@primer/octicons-react";
+import { Fragment, useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Separator } from "@/components/ui/separator";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import { useGithubStarredRepositories } from "../github/use-github-starred-repositories";
+import type { AlternativeGroup } from "./repository-alternatives";
+import { useSharedRepositorySearch } from "./repository-search-provider";
+
+type AlternativesState =
+  | { status: "loading" }
+  | { status: "ready"; groups: AlternativeGroup[] }
+  | { status: "error" };
+
+const MAX_SHARED_TOPICS = 5;
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+function AlternativeRow({ repo }: { repo: StarredRepository }) {
+  const id = `${repo.owner}/${repo.name}`;
+
+  return (
+    <div className="grid grid-cols-[minmax(0,1fr)_auto_auto_auto] items-center gap-x-4 text-xs">
+      <a
+        className="truncate hover:underline"
+        href={`https://github.com/${id}`}
+        rel="noopener noreferrer"
+        target="_blank"
+      >
+        <span className="font-semibold text-sm tracking-[0.01em]">{id}</span>
+      </a>
+      <div className="flex items-center justify-end gap-1 text-muted-foreground">
+        <StarIcon size={12} />
+        <span>{repo.stargazerCount.toLocaleString()}</span>
+      </div>
+      <span className="text-muted-foreground">
+        Pushed {formatDate(repo.pushedAt)}
+      </span>
+      <span className="text-muted-foreground">
+        Starred {formatDate(repo.starredAt)}
+      </span>
+    </div>
+  );
+}
+
+function AlternativeGroupSection({
+  group,
+  repositoriesById,
+}: {
+  group: AlternativeGroup;
+  repositoriesById: Map<string, StarredRepository>;
+}) {
+  return (
+    <section className="flex flex-col gap-2">
+      <h3 className="font-medium text-sm">
+        You starred {group.repositoryIds.length} alternatives for{" "}
+        <span className="font-semibold">{group.label}</span>
+      </h3>
+      {group.sharedTopics.length > 0 ? (
+        <div className="flex flex-wrap gap-1.5">
+          {group.sharedTopics.slice(0, MAX_SHARED_TOPICS).map((topic) => (
+            <span
+              className={cn(
+                "rounded-md",
+                "bg-primary/10",
+                "px-2 py-0.5",
+                "font-mono text-primary text-xs"
+              )}
+              key={topic}
+            >
+              {topic}
+            </span>
+          ))}
+        </div>
+      ) : null}
+      <div className="grid gap-1.5">
+        {group.repositoryIds.map((id) => {
+          const repo = repositoriesById.get(id);
+          return repo ? <AlternativeRow key={id} repo={repo} /> : null;
+        })}
+      </div>
+    </section>
+  );
+}
+
+/** Looks for alternatives once the dialog opens. */
+function AlternativesView({
+  repositories,
+}: {
+  repositories: StarredRepository[];
+}) {
+  const { alternatives, isReady } = useSharedRepositorySearch();
+  const [state, setState] = useState<AlternativesState>({
+    status: "loading",
+  });
+  const repositoriesById = useMemo(
+    () =>
+      new Map(repositories.map((repo) => [`${repo.owner}/${repo.name}`, repo])),
+    [repositories]
+  );
+
+  useEffect(() => {
+    if (!isReady) {
+      return;
+    }
+    let isCancelled = false;
+    alternatives()
+      .then((groups) => {
+        if (!isCancelled) {
+          setState({ status: "ready", groups });
+        }
+      })
+      .catch(() => {
+        if (!isCancelled) {
+          setState({ status: "error" });
+        }
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [alternatives, isReady]);
+
+  if (state.status === "loading") {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Spinner className="size-6" />
+      </div>
+    );
+  }
+  if (state.status === "error") {
+    return (
+      <p className="py-8 text-center text-muted-foreground text-sm">
+        Failed to compare your starred repositories.
+      </p>
+    );
+  }
+  if (state.groups.length === 0) {
+    return (
+      <p className="py-8 text-center text-muted-foreground text-sm">
+        None of your stars look like alternatives to one another.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid max-h-[calc(80vh-10rem)] gap-4 overflow-y-auto">
+      {state.groups.map((group, index) => (
+        <Fragment key={group.repositoryIds[0]}>
+          {index > 0 ? <Separator /> : null}
+          <AlternativeGroupSection
+            group={group}
+            repositoriesById={repositoriesById}
+          />
+        </Fragment>
+      ))}
+    </div>
+  );
+}
+
+export function RepositoryAlternativesDialog() {
+  const github = useGithubStarredRepositories();
+  const repositories = github.repositories;
+
+  return (
+    <Dialog>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DialogTrigger asChild>
+            <Button
+              disabled={repositories.length === 0}
+              size="icon"
+              variant="outline"
+            >
+              <GitCompareIcon size={16} />
+            </Button>
+          </DialogTrigger>
+        </TooltipTrigger>
+        <TooltipContent>Find alternatives</TooltipContent>
+      </Tooltip>
+      <DialogContent className="max-h-[80vh] max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Alternatives</DialogTitle>
+          <DialogDescription>
+            Starred repositories that describe themselves alike or share topics,
+            with their stars and activity side by side.
+          </DialogDescription>
+        </DialogHeader>
+        <AlternativesView repositories={repositories} />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { findAlternativeGroups } from "./repository-alternatives";
+import { normalizeVector, type TermVector } from "./term-vectors";
+
+const createVector = (terms: Record<string, number>): TermVector =>
+  normalizeVector(new Map(Object.entries(terms)));
+
+const createPoint = (
+  id: string,
+  terms: Record<string, number>,
+  topics: string[] = [],
+  stargazerCount = 0
+) => ({ id, vector: createVector(terms), topics, stargazerCount });
+
+const LOW_STARS = 10;
+const HIGH_STARS = 500;
+
+describe("findAlternativeGroups", () => {
+  it("groups repositories describing themselves alike", () => {
+    const groups = findAlternativeGroups([
+      createPoint("a/json", { json: 2, parser: 1 }, [], LOW_STARS),
+      createPoint("b/json", { json: 2, parser: 1, fast: 1 }, [], HIGH_STARS),
+      createPoint("c/rust", { rust: 2, compiler: 1 }),
+    ]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0]?.repositoryIds).toEqual(["b/json", "a/json"]);
+  });
+
+  it("labels groups with their most shared topic", () => {
+    const [group] = findAlternativeGroups([
+      createPoint("a/store", { store: 1 }, ["state-management", "react"]),
+      createPoint("b/atoms", { store: 1, atom: 1 }, ["state-management"]),
+    ]);
+
+    expect(group?.label).toBe("state-management");
+    expect(group?.sharedTopics).toEqual(["state-management"]);
+  });
+
+  it("falls back to top terms without shared topics", () => {
+    const [group] = findAlternativeGroups([
+      createPoint("a/json", { json: 2, parser: 1 }),
+      createPoint("b/json", { json: 2, parser: 1 }),
+    ]);
+
+    expect(group?.label).toBe("json · parser");
+  });
+
+  it("lets shared topics pull together loosely described repositories", () => {
+    const points = [
+      createPoint("a/orm", { orm: 1, sql: 1 }, ["orm", "database"]),
+      createPoint("b/orm", { orm: 1, query: 1, builder: 1 }, [
+        "orm",
+        "database",
+      ]),
+    ];
+
+    expect(findAlternativeGroups(points, { topicWeight: 0 })).toEqual([]);
+    expect(findAlternativeGroups(points)).toHaveLength(1);
+  });
+
+  it("caps how large a group can grow", () => {
+    const points = ["a", "b", "c", "d"].map((owner) =>
+      createPoint(`${owner}/json`, { json: 1 })
+    );
+
+    expect(
+      findAlternativeGroups(points, { maxGroupSize: 2 }).map(
+        ({ repositoryIds }) => repositoryIds.length
+      )
+    ).toEqual([2, 2]);
+  });
+});
@@ -0,0 +1,267 @@
+import {
+  averageVectors,
+  cosineSimilarity,
+  getTopTerms,
+  type TermVector,
+} from "./term-vectors";
+
+export type AlternativeOptions = {
+  /** Combined similarity a pair needs to be treated as alternatives. */
+  minSimilarity?: number;
+  /** Share of the combined similarity taken from topic overlap. */
+  topicWeight?: number;
+  /** Groups stop growing at this size so loose chains do not snowball. */
+  maxGroupSize?: number;
+};
+
+export type AlternativeGroup = {
+  /** Most common shared topic, or the group's top terms without one. */
+  label: string;
+  /** Topics held by at least two members, most common first. */
+  sharedTopics: string[];
+  /** Members, most starred first. */
+  repositoryIds: string[];
+  /** Mean similarity of the pairs that formed the group. */
+  similarity: number;
+};
+
+type AlternativePoint = {
+  id: string;
+  vector: TermVector;
+  topics: string[];
+  stargazerCount: number;
+};
+
+type CandidatePair = {
+  left: number;
+  right: number;
+  similarity: number;
+};
+
+type IndexedPoint = AlternativePoint & {
+  topicSet: Set<string>;
+};
+
+type LinkedGroup = {
+  members: number[];
+  /** Sum over the links that formed the group, one fewer than its members. */
+  similaritySum: number;
+};
+
+const DEFAULT_MIN_SIMILARITY = 0.5;
+const DEFAULT_TOPIC_WEIGHT = 0.4;
+const DEFAULT_MAX_GROUP_SIZE = 8;
+const MIN_COMMON_POSTING_LENGTH = 50;
+const COMMON_POSTING_RATIO = 0.05;
+const LABEL_TERM_COUNT = 2;
+const TOPIC_KEY_PREFIX = "#";
+
+function getJaccard(left: Set<string>, right: Set<string>): number {
+  if (left.size === 0 || right.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  for (const topic of left) {
+    if (right.has(topic)) {
+      shared += 1;
+    }
+  }
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * Inverted lists over vector terms and topics. Only repositories sharing a
+ * term or topic are ever compared, and terms or topics most of the stars
+ * share are skipped since they say nothing about being an alternative.
+ */
+function buildPostings(points: IndexedPoint[]): number[][] {
+  const postings = new Map<string, number[]>();
+  const add = (key: string, index: number) => {
+    const list = postings.get(key);
+    if (list) {
+      list.push(index);
+    } else {
+      postings.set(key, [index]);
+    }
+  };
+  for (const [index, point] of points.entries()) {
+    for (const token of point.vector.keys()) {
+      add(token, index);
+    }
+    for (const topic of point.topicSet) {
+      add(`${TOPIC_KEY_PREFIX}${topic}`, index);
+    }
+  }
+
+  const maxLength = Math.max(
+    MIN_COMMON_POSTING_LENGTH,
+    Math.ceil(points.length * COMMON_POSTING_RATIO)
+  );
+  return Array.from(postings.values()).filter(
+    (list) => list.length > 1 && list.length <= maxLength
+  );
+}
+
+/**
+ * Cosine similarity blended with topic overlap. Topics only count when both
+ * sides were tagged, so untagged repositories are not penalized for it.
+ */
+function getPairSimilarity(
+  left: IndexedPoint,
+  right: IndexedPoint,
+  topicWeight: number
+): number {
+  const cosine = cosineSimilarity(left.vector, right.vector);
+  if (left.topicSet.size === 0 || right.topicSet.size === 0) {
+    return cosine;
+  }
+  return (
+    (1 - topicWeight) * cosine +
+    topicWeight * getJaccard(left.topicSet, right.topicSet)
+  );
+}
+
+function collectCandidatePairs(postings: number[][]): [number, number][] {
+  const seen = new Set<string>();
+  const pairs: [number, number][] = [];
+  for (const list of postings) {
+    for (const [position, left] of list.entries()) {
+      for (const right of list.slice(position + 1)) {
+        const key = `${left}:${right}`;
+        if (!seen.has(key)) {
+          seen.add(key);
+          pairs.push([left, right]);
+        }
+      }
+    }
+  }
+  return pairs;
+}
+
+function findSimilarPairs(
+  points: IndexedPoint[],
+  minSimilarity: number,
+  topicWeight: number
+): CandidatePair[] {
+  const pairs: CandidatePair[] = [];
+  for (const [left, right] of collectCandidatePairs(buildPostings(points))) {
+    const leftPoint = points[left];
+    const rightPoint = points[right];
+    if (!(leftPoint && rightPoint)) {
+      continue;
+    }
+    const similarity = getPairSimilarity(leftPoint, rightPoint, topicWeight);
+    if (similarity >= minSimilarity) {
+      pairs.push({ left, right, similarity });
+    }
+  }
+  return pairs.sort((a, b) => b.similarity - a.similarity);
+}
+
+/**
+ * Union-find over the pairs, strongest first. A link that would grow a group
+ * past `maxGroupSize` is dropped.
+ */
+function linkPairs(
+  size: number,
+  pairs: CandidatePair[],
+  maxGroupSize: number
+): LinkedGroup[] {
+  const parents = Array.from({ length: size }, (_, index) => index);
+  const groups = new Map<number, LinkedGroup>(
+    parents.map((index) => [index, { members: [index], similaritySum: 0 }])
+  );
+  const findRoot = (index: number): number => {
+    let root = index;
+    while (parents[root] !== root) {
+      root = parents[root] ?? root;
+    }
+    parents[index] = root;
+    return root;
+  };
+
+  for (const { left, right, similarity } of pairs) {
+    const leftRoot = findRoot(left);
+    const rightRoot = findRoot(right);
+    const leftGroup = groups.get(leftRoot);
+    const rightGroup = groups.get(rightRoot);
+    if (
+      leftRoot === rightRoot ||
+      !(leftGroup && rightGroup) ||
+      leftGroup.members.length + rightGroup.members.length > maxGroupSize
+    ) {
+      continue;
+    }
+    parents[rightRoot] = leftRoot;
+    leftGroup.members.push(...rightGroup.members);
+    leftGroup.similaritySum += rightGroup.similaritySum + similarity;
+    groups.delete(rightRoot);
+  }
+  return Array.from(groups.values()).filter(
+    ({ members }) => members.length > 1
+  );
+}
+
+function getSharedTopics(members: IndexedPoint[]): string[] {
+  const counts = new Map<string, number>();
+  for (const { topicSet } of members) {
+    for (const topic of topicSet) {
+      counts.set(topic, (counts.get(topic) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts.entries())
+    .filter(([, count]) => count > 1)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([topic]) => topic);
+}
+
+/**
+ * Finds groups of near-duplicate or alternative repositories: pairs whose
+ * descriptions and topics are similar enough are linked, and linked
+ * repositories form a group. Groups come back largest first.
+ */
+export function findAlternativeGroups(
+  points: AlternativePoint[],
+  options: AlternativeOptions = {}
+): AlternativeGroup[] {
+  const indexed = points.map((point) => ({
+    ...point,
+    topicSet: new Set(point.topics.map((topic) => topic.toLowerCase())),
+  }));
+  const pairs = findSimilarPairs(
+    indexed,
+    options.minSimilarity ?? DEFAULT_MIN_SIMILARITY,
+    options.topicWeight ?? DEFAULT_TOPIC_WEIGHT
+  );
+
+  return linkPairs(
+    indexed.length,
+    pairs,
+    options.maxGroupSize ?? DEFAULT_MAX_GROUP_SIZE
+  )
+    .map(({ members, similaritySum }) => {
+      const memberPoints = members
+        .map((member) => indexed[member])
+        .filter((point) => point !== undefined);
+      const sharedTopics = getSharedTopics(memberPoints);
+      const label =
+        sharedTopics[0] ??
+        getTopTerms(
+          averageVectors(memberPoints.map(({ vector }) => vector)),
+          LABEL_TERM_COUNT
+        ).join(" · ");
+      return {
+        label,
+        sharedTopics,
+        repositoryIds: memberPoints
+          .sort((a, b) => b.stargazerCount - a.stargazerCount)
+          .map(({ id }) => id),
+        similarity: similaritySum / (members.length - 1),
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.repositoryIds.length - a.repositoryIds.length ||
+        b.similarity - a.similarity
+    );
+}
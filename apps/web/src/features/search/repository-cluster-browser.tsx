@@ -0,0 +1,223 @@
+import type { StarredRepository } from "@i-starred-it/api/services/github";
+import { StackIcon, StarIcon } from "@primer/octicons-react";
+import { Fragment, useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Separator } from "@/components/ui/separator";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import { useGithubStarredRepositories } from "../github/use-github-starred-repositories";
+import type {
+  RepositoryCluster,
+  RepositoryClustering,
+} from "./repository-clustering";
+import { useSharedRepositorySearch } from "./repository-search-provider";
+
+type ClusteringState =
+  | { status: "loading" }
+  | { status: "ready"; clustering: RepositoryClustering }
+  | { status: "error" };
+
+const UNCLUSTERED_LABEL = "No description";
+
+function ClusterRepositories({
+  ids,
+  repositoriesById,
+}: {
+  ids: string[];
+  repositoriesById: Map<string, StarredRepository>;
+}) {
+  return (
+    <div className="grid gap-3">
+      {ids.map((id, index) => {
+        const repo = repositoriesById.get(id);
+        if (!repo) {
+          return null;
+        }
+        return (
+          <Fragment key={id}>
+            {index > 0 ? <Separator /> : null}
+            <div className="flex flex-col gap-1">
+              <div className="flex items-center gap-2">
+                <a
+                  className="hover:underline"
+                  href={`https://github.com/${id}`}
+                  rel="noopener noreferrer"
+                  target="_blank"
+                >
+                  <span className="font-semibold text-sm tracking-[0.01em]">
+                    {id}
+                  </span>
+                </a>
+                <div className="flex items-center gap-1 text-muted-foreground text-xs">
+                  <StarIcon size={12} />
+                  <span>{repo.stargazerCount.toLocaleString()}</span>
+                </div>
+              </div>
+              {repo.description ? (
+                <p className="line-clamp-2 text-muted-foreground text-xs">
+                  {repo.description}
+                </p>
+              ) : null}
+            </div>
+          </Fragment>
+        );
+      })}
+    </div>
+  );
+}
+
+function ClusterChip({
+  label,
+  count,
+  isSelected,
+  onSelect,
+}: {
+  label: string;
+  count: number;
+  isSelected: boolean;
+  onSelect: () => void;
+}) {
+  return (
+    <Button
+      className="h-7 gap-1.5 rounded-full px-3 text-xs"
+      onClick={onSelect}
+      size="sm"
+      variant={isSelected ? "default" : "outline"}
+    >
+      <span className="max-w-48 truncate">{label}</span>
+      <span className={cn(!isSelected && "text-muted-foreground")}>
+        {count}
+      </span>
+    </Button>
+  );
+}
+
+/** Clusters the stars once the dialog opens. */
+function ClusterView({ repositories }: { repositories: StarredRepository[] }) {
+  const { cluster, isReady } = useSharedRepositorySearch();
+  const [state, setState] = useState<ClusteringState>({ status: "loading" });
+  const [selected, setSelected] = useState(0);
+  const repositoriesById = useMemo(
+    () =>
+      new Map(repositories.map((repo) => [`${repo.owner}/${repo.name}`, repo])),
+    [repositories]
+  );
+
+  useEffect(() => {
+    if (!isReady) {
+      return;
+    }
+    let isCancelled = false;
+    cluster()
+      .then((clustering) => {
+        if (!isCancelled) {
+          setState({ status: "ready", clustering });
+        }
+      })
+      .catch(() => {
+        if (!isCancelled) {
+          setState({ status: "error" });
+        }
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [cluster, isReady]);
+
+  if (state.status === "loading") {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Spinner className="size-6" />
+      </div>
+    );
+  }
+  if (state.status === "error") {
+    return (
+      <p className="py-8 text-center text-muted-foreground text-sm">
+        Failed to group your starred repositories.
+      </p>
+    );
+  }
+
+  const { clusters, unclusteredIds } = state.clustering;
+  const groups: Pick<RepositoryCluster, "label" | "repositoryIds">[] =
+    unclusteredIds.length > 0
+      ? [
+          ...clusters,
+          { label: UNCLUSTERED_LABEL, repositoryIds: unclusteredIds },
+        ]
+      : clusters;
+  const current = groups[selected] ?? groups[0];
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap gap-1.5">
+        {groups.map((group, index) => (
+          <ClusterChip
+            count={group.repositoryIds.length}
+            isSelected={group === current}
+            key={group.repositoryIds[0]}
+            label={group.label}
+            onSelect={() => setSelected(index)}
+          />
+        ))}
+      </div>
+      <Separator />
+      <div className="max-h-[calc(80vh-16rem)] overflow-y-auto">
+        {current ? (
+          <ClusterRepositories
+            ids={current.repositoryIds}
+            repositoriesById={repositoriesById}
+          />
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+export function RepositoryClusterBrowser() {
+  const github = useGithubStarredRepositories();
+  const repositories = github.repositories;
+
+  return (
+    <Dialog>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DialogTrigger asChild>
+            <Button
+              disabled={repositories.length === 0}
+              size="icon"
+              variant="outline"
+            >
+              <StackIcon size={16} />
+            </Button>
+          </DialogTrigger>
+        </TooltipTrigger>
+        <TooltipContent>Browse by topic</TooltipContent>
+      </Tooltip>
+      <DialogContent className="max-h-[80vh] max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Topics</DialogTitle>
+          <DialogDescription>
+            Your starred repositories grouped by what they describe themselves
+            as, labeled with each group's most telling terms.
+          </DialogDescription>
+        </DialogHeader>
+        <ClusterView repositories={repositories} />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import {
+  clusterVectors,
+  getDefaultClusterCount,
+} from "./repository-clustering";
+import { normalizeVector, type TermVector } from "./term-vectors";
+
+const createVector = (terms: Record<string, number>): TermVector =>
+  normalizeVector(new Map(Object.entries(terms)));
+
+const points = [
+  { id: "a/state", vector: createVector({ state: 2, react: 1, store: 1 }) },
+  { id: "b/store", vector: createVector({ state: 1, store: 2 }) },
+  { id: "c/atoms", vector: createVector({ state: 2, atom: 1 }) },
+  { id: "d/rust", vector: createVector({ rust: 2, compiler: 1 }) },
+  { id: "e/cargo", vector: createVector({ rust: 1, cargo: 2 }) },
+  { id: "f/empty", vector: new Map() },
+];
+
+const LARGE_CORPUS = 10_000;
+const MAX_CLUSTERS = 40;
+
+describe("clusterVectors", () => {
+  it("groups points sharing vocabulary", () => {
+    const { clusters } = clusterVectors(points, { k: 2 });
+
+    expect(clusters).toHaveLength(2);
+    expect(clusters[0]?.repositoryIds.sort()).toEqual([
+      "a/state",
+      "b/store",
+      "c/atoms",
+    ]);
+    expect(clusters[1]?.repositoryIds.sort()).toEqual(["d/rust", "e/cargo"]);
+  });
+
+  it("labels clusters with their top terms", () => {
+    const { clusters } = clusterVectors(points, { k: 2, labelTermCount: 1 });
+
+    expect(clusters[0]?.label).toBe("state");
+    expect(clusters[1]?.label).toBe("rust");
+  });
+
+  it("leaves repositories without text unclustered", () => {
+    expect(clusterVectors(points, { k: 2 }).unclusteredIds).toEqual([
+      "f/empty",
+    ]);
+  });
+
+  it("is deterministic for a seed", () => {
+    expect(clusterVectors(points, { k: 3, seed: 7 })).toEqual(
+      clusterVectors(points, { k: 3, seed: 7 })
+    );
+  });
+
+  it("never makes more clusters than points", () => {
+    expect(
+      clusterVectors(points.slice(0, 2), { k: 5 }).clusters.length
+    ).toBeLessThanOrEqual(2);
+  });
+});
+
+describe("getDefaultClusterCount", () => {
+  it("scales with the corpus within bounds", () => {
+    expect(getDefaultClusterCount(1)).toBe(2);
+    expect(getDefaultClusterCount(LARGE_CORPUS)).toBe(MAX_CLUSTERS);
+  });
+});
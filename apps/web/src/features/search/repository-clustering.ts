@@ -0,0 +1,188 @@
+import {
+  averageVectors,
+  cosineSimilarity,
+  getTopTerms,
+  type TermVector,
+} from "./term-vectors";
+
+export type ClusterOptions = {
+  /** Number of clusters; defaults to one per ~50 repositories. */
+  k?: number;
+  maxIterations?: number;
+  /** Seeds the k-means++ initialization so reruns give the same topics. */
+  seed?: number;
+  /** Top terms joined into each cluster's label. */
+  labelTermCount?: number;
+};
+
+export type RepositoryCluster = {
+  label: string;
+  /** Highest-weighted centroid terms, best first. */
+  terms: string[];
+  /** Members, most representative first. */
+  repositoryIds: string[];
+};
+
+export type RepositoryClustering = {
+  clusters: RepositoryCluster[];
+  /** Repositories without any descriptive text to cluster on. */
+  unclusteredIds: string[];
+};
+
+type ClusterPoint = {
+  id: string;
+  vector: TermVector;
+};
+
+const REPOSITORIES_PER_CLUSTER = 50;
+const MIN_CLUSTERS = 2;
+const MAX_CLUSTERS = 40;
+const DEFAULT_MAX_ITERATIONS = 25;
+const DEFAULT_SEED = 42;
+const DEFAULT_LABEL_TERM_COUNT = 3;
+const RANDOM_MODULUS = 2_147_483_647;
+const RANDOM_MULTIPLIER = 16_807;
+
+export function getDefaultClusterCount(size: number): number {
+  return Math.min(
+    MAX_CLUSTERS,
+    Math.max(MIN_CLUSTERS, Math.round(size / REPOSITORIES_PER_CLUSTER))
+  );
+}
+
+/**
+ * Park-Miller minimal standard generator: plain arithmetic and good enough
+ * for picking seeds.
+ */
+function createRandom(seed: number): () => number {
+  let state = Math.abs(Math.trunc(seed)) % RANDOM_MODULUS || 1;
+  return () => {
+    state = (state * RANDOM_MULTIPLIER) % RANDOM_MODULUS;
+    return (state - 1) / (RANDOM_MODULUS - 1);
+  };
+}
+
+/**
+ * k-means++ on cosine distance: each next centroid is drawn with
+ * probability proportional to its squared distance from the closest one so
+ * far, which spreads the seeds across topics.
+ */
+function pickInitialCentroids(
+  points: ClusterPoint[],
+  k: number,
+  random: () => number
+): TermVector[] {
+  const first = points[Math.floor(random() * points.length)];
+  if (!first) {
+    return [];
+  }
+  const centroids = [first.vector];
+  const distances = points.map(
+    (point) => (1 - cosineSimilarity(point.vector, first.vector)) ** 2
+  );
+
+  while (centroids.length < k) {
+    const total = distances.reduce((sum, distance) => sum + distance, 0);
+    if (total <= 0) {
+      break;
+    }
+    let target = random() * total;
+    let index = 0;
+    while (index < distances.length - 1 && target >= (distances[index] ?? 0)) {
+      target -= distances[index] ?? 0;
+      index += 1;
+    }
+    const next = points[index];
+    if (!next) {
+      break;
+    }
+    centroids.push(next.vector);
+    for (const [pointIndex, point] of points.entries()) {
+      const distance = (1 - cosineSimilarity(point.vector, next.vector)) ** 2;
+      distances[pointIndex] = Math.min(distances[pointIndex] ?? 0, distance);
+    }
+  }
+  return centroids;
+}
+
+function findNearest(vector: TermVector, centroids: TermVector[]): number {
+  let best = 0;
+  let bestSimilarity = Number.NEGATIVE_INFINITY;
+  for (const [index, centroid] of centroids.entries()) {
+    const similarity = cosineSimilarity(vector, centroid);
+    if (similarity > bestSimilarity) {
+      best = index;
+      bestSimilarity = similarity;
+    }
+  }
+  return best;
+}
+
+/**
+ * Spherical k-means over normalized TF-IDF vectors. Clusters come back
+ * largest first and are labeled with their top terms.
+ */
+export function clusterVectors(
+  vectors: ClusterPoint[],
+  options: ClusterOptions = {}
+): RepositoryClustering {
+  const points = vectors.filter(({ vector }) => vector.size > 0);
+  const unclusteredIds = vectors
+    .filter(({ vector }) => vector.size === 0)
+    .map(({ id }) => id);
+  if (points.length === 0) {
+    return { clusters: [], unclusteredIds };
+  }
+
+  const k = Math.min(
+    points.length,
+    options.k ?? getDefaultClusterCount(points.length)
+  );
+  const labelTermCount = options.labelTermCount ?? DEFAULT_LABEL_TERM_COUNT;
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+  let centroids = pickInitialCentroids(
+    points,
+    k,
+    createRandom(options.seed ?? DEFAULT_SEED)
+  );
+  let assignments = points.map(() => -1);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const next = points.map(({ vector }) => findNearest(vector, centroids));
+    const hasChanged = next.some(
+      (index, point) => index !== assignments[point]
+    );
+    assignments = next;
+    if (!hasChanged) {
+      break;
+    }
+    // A centroid that lost all of its members keeps its position.
+    centroids = centroids.map((centroid, index) => {
+      const members = points.filter((_, point) => assignments[point] === index);
+      return members.length > 0
+        ? averageVectors(members.map(({ vector }) => vector))
+        : centroid;
+    });
+  }
+
+  const clusters = centroids
+    .map((centroid, index) => {
+      const members = points
+        .filter((_, point) => assignments[point] === index)
+        .map(({ id, vector }) => ({
+          id,
+          similarity: cosineSimilarity(vector, centroid),
+        }))
+        .sort((a, b) => b.similarity - a.similarity);
+      const terms = getTopTerms(centroid, labelTermCount * 2);
+      return {
+        label: terms.slice(0, labelTermCount).join(" · "),
+        terms,
+        repositoryIds: members.map(({ id }) => id),
+      };
+    })
+    .filter((cluster) => cluster.repositoryIds.length > 0)
+    .sort((a, b) => b.repositoryIds.length - a.repositoryIds.length);
+
+  return { clusters, unclusteredIds };
+}
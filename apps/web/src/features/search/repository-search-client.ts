@@ -0,0 +1,139 @@
+import {
+  createRepositorySearchWorkerApi,
+  dispatchRepositorySearchRequest,
+  type IndexingProgress,
+  type RepositorySearchMethod,
+  type RepositorySearchRequest,
+  type RepositorySearchResponse,
+  type RepositorySearchWorkerApi,
+} from "./repository-search-worker-api";
+
+type ResponseHandler = (response: RepositorySearchResponse) => void;
+
+type ProgressListener = (progress: IndexingProgress) => void;
+
+type PendingRequest = {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+};
+
+type Transport = {
+  send: (request: RepositorySearchRequest) => void;
+  dispose: () => void;
+};
+
+function createWorkerTransport(onResponse: ResponseHandler): Transport {
+  const worker = new Worker(
+    new URL("./repository-search.worker.ts", import.meta.url),
+    { type: "module" }
+  );
+  worker.addEventListener(
+    "message",
+    (event: MessageEvent<RepositorySearchResponse>) => {
+      onResponse(event.data);
+    }
+  );
+
+  return {
+    send: (request) => {
+      worker.postMessage(request);
+    },
+    dispose: () => {
+      worker.terminate();
+    },
+  };
+}
+
+// Runs the same API on the main thread where workers are unavailable, such as
+// in tests.
+function createInProcessTransport(onResponse: ResponseHandler): Transport {
+  let isDisposed = false;
+  const api = createRepositorySearchWorkerApi((progress) => {
+    if (!isDisposed) {
+      onResponse({ type: "progress", progress });
+    }
+  });
+
+  return {
+    send: (request) => {
+      dispatchRepositorySearchRequest(api, request).then((response) => {
+        if (!isDisposed) {
+          onResponse(response);
+        }
+      });
+    },
+    dispose: () => {
+      isDisposed = true;
+    },
+  };
+}
+
+export class RepositorySearchClient {
+  private readonly transport: Transport;
+  private readonly pending = new Map<number, PendingRequest>();
+  private readonly progressListeners = new Set<ProgressListener>();
+  private nextRequestId = 0;
+
+  constructor() {
+    const handleResponse = (response: RepositorySearchResponse) => {
+      this.handleResponse(response);
+    };
+    this.transport =
+      typeof Worker === "undefined"
+        ? createInProcessTransport(handleResponse)
+        : createWorkerTransport(handleResponse);
+  }
+
+  call<Method extends RepositorySearchMethod>(
+    method: Method,
+    ...args: Parameters<RepositorySearchWorkerApi[Method]>
+  ): Promise<Awaited<ReturnType<RepositorySearchWorkerApi[Method]>>> {
+    const id = this.nextRequestId;
+    this.nextRequestId += 1;
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, {
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+      this.transport.send({ id, method, args } as RepositorySearchRequest);
+    });
+  }
+
+  onProgress(listener: ProgressListener): () => void {
+    this.progressListeners.add(listener);
+    return () => {
+      this.progressListeners.delete(listener);
+    };
+  }
+
+  dispose(): void {
+    this.transport.dispose();
+    for (const request of this.pending.values()) {
+      request.reject(new Error("Repository search client disposed"));
+    }
+    this.pending.clear();
+    this.progressListeners.clear();
+  }
+
+  private handleResponse(response: RepositorySearchResponse) {
+    if (response.type === "progress") {
+      for (const listener of this.progressListeners) {
+        listener(response.progress);
+      }
+      return;
+    }
+
+    const request = this.pending.get(response.id);
+    if (!request) {
+      return;
+    }
+    this.pending.delete(response.id);
+
+    if (response.type === "error") {
+      request.reject(new Error(response.message));
+      return;
+    }
+    request.resolve(response.value);
+  }
+}
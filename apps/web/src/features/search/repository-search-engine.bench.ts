@@ -0,0 +1,130 @@
+import type { StarredRepository } from "@i-starred-it/api/services/github";
+import { bench, describe } from "vitest";
+import { RepositorySearchEngine } from "./repository-search-engine";
+
+const CORPUS_SIZE = 20_000;
+const VOCABULARY_SIZE = 8000;
+const DESCRIPTION_WORDS = 10;
+const README_WORDS = 80;
+const QUERY_COUNT = 8;
+const KEYWORDS_PER_QUERY = 64;
+const COMMON_KEYWORDS_PER_QUERY = 16;
+const COMMON_RANK_LIMIT = 50;
+const MAX_STARS = 100_000;
+const RANDOM_MODULUS = 2_147_483_647;
+const RANDOM_MULTIPLIER = 16_807;
+const SEED = 7;
+// Each iteration takes seconds without pruning; a few are enough.
+const BENCH_OPTIONS = {
+  iterations: 3,
+  time: 0,
+  warmupIterations: 1,
+  warmupTime: 0,
+};
+const SYLLABLES = [
+  "ka",
+  "lo",
+  "mi",
+  "ne",
+  "ru",
+  "sa",
+  "ti",
+  "vo",
+  "xe",
+  "zu",
+  "bra",
+  "cle",
+  "dri",
+  "flo",
+  "gru",
+  "pla",
+  "sto",
+  "tre",
+  "qui",
+  "wen",
+];
+
+let state = SEED;
+const random = () => {
+  state = (state * RANDOM_MULTIPLIER) % RANDOM_MODULUS;
+  return (state - 1) / (RANDOM_MODULUS - 1);
+};
+
+// Words spelled out from their rank in base `SYLLABLES.length`, so every
+// rank maps to a distinct word.
+const vocabulary = Array.from({ length: VOCABULARY_SIZE }, (_, rank) => {
+  let word = "";
+  let rest = rank + SYLLABLES.length;
+  while (rest > 0) {
+    word += SYLLABLES[rest % SYLLABLES.length];
+    rest = Math.floor(rest / SYLLABLES.length);
+  }
+  return word;
+});
+
+// Roughly Zipf-distributed: a handful of words show up in most
+// repositories, like "library" or "react" do in real stars.
+const pickWord = () =>
+  vocabulary[Math.floor(VOCABULARY_SIZE ** random()) - 1] ?? "";
+const pickWords = (count: number) =>
+  Array.from({ length: count }, pickWord).join(" ");
+
+const repositories: StarredRepository[] = Array.from(
+  { length: CORPUS_SIZE },
+  (_, index) => ({
+    owner: `owner-${index % COMMON_RANK_LIMIT}`,
+    name: `repo-${index}`,
+    description: pickWords(DESCRIPTION_WORDS),
+    readme: pickWords(README_WORDS),
+    stargazerCount: Math.floor(random() * MAX_STARS),
+    forkCount: 0,
+    pushedAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    starredAt: new Date().toISOString(),
+  })
+);
+
+// LLM-style queries: as many keywords as allowed, a quarter of them common.
+const queries = Array.from({ length: QUERY_COUNT }, () =>
+  Array.from({ length: KEYWORDS_PER_QUERY }, (_, index) =>
+    index < COMMON_KEYWORDS_PER_QUERY
+      ? (vocabulary[Math.floor(random() * COMMON_RANK_LIMIT)] ?? "")
+      : pickWord()
+  )
+);
+
+const buildEngine = (topKPruning: boolean) => {
+  const engine = new RepositorySearchEngine({ topKPruning });
+  for (const repository of repositories) {
+    engine.add(repository);
+  }
+  engine.consolidate();
+  return engine;
+};
+
+const pruned = buildEngine(true);
+const exhaustive = buildEngine(false);
+
+// Posting impacts and their per-term maxima are built on consolidation, so
+// the first search pays nothing extra.
+describe(`search over ${CORPUS_SIZE.toLocaleString()} repositories`, () => {
+  bench(
+    "top-k with MaxScore pruning",
+    () => {
+      for (const keywords of queries) {
+        pruned.search(keywords);
+      }
+    },
+    BENCH_OPTIONS
+  );
+
+  bench(
+    "exhaustive scoring",
+    () => {
+      for (const keywords of queries) {
+        exhaustive.search(keywords);
+      }
+    },
+    BENCH_OPTIONS
+  );
+});
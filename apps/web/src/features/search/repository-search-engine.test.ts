@@ -1,6 +1,10 @@
 import type { StarredRepository } from "@i-starred-it/api/services/github";
 import { beforeEach, describe, expect, it } from "vitest";
-import { RepositorySearchEngine } from "./repository-search-engine";
+import {
+  type EngineConfigOverrides,
+  RepositorySearchEngine,
+  SEARCH_INDEX_VERSION,
+} from "./repository-search-engine";
 
 const createMockRepository = (
   owner: string,
@@ -148,6 +152,75 @@ describe("RepositorySearchEngine", () => {
     });
   });
 
+  describe("query syntax", () => {
+    beforeEach(() => {
+      engine.add(
+        createMockRepository(
+          "vercel",
+          "next.js",
+          "The React Framework",
+          "Build full-stack web apps with server rendering."
+        )
+      );
+      engine.add(
+        createMockRepository(
+          "remix-run",
+          "react-router",
+          "Declarative routing for React",
+          "A router that renders on the server and the web."
+        )
+      );
+      engine.add(
+        createMockRepository(
+          "wasmerio",
+          "wasmer",
+          "WebAssembly runtime",
+          "Run wasm modules on the server."
+        )
+      );
+      engine.consolidate();
+    });
+
+    it("scopes terms to the owner field", () => {
+      const results = engine.searchQuery("owner:vercel");
+      expect(results.map((r) => r.id)).toEqual(["vercel/next.js"]);
+    });
+
+    it("does not match scoped terms found only in other fields", () => {
+      expect(engine.searchQuery("name:server")).toEqual([]);
+      expect(engine.searchQuery("readme:server").length).toBe(engine.size);
+    });
+
+    it("excludes repositories with -terms", () => {
+      const ids = engine.searchQuery("server -wasm").map((r) => r.id);
+      expect(ids).toContain("vercel/next.js");
+      expect(ids).not.toContain("wasmerio/wasmer");
+    });
+
+    it("requires +terms", () => {
+      const ids = engine.searchQuery("+react server").map((r) => r.id);
+      expect(ids.sort()).toEqual(["remix-run/react-router", "vercel/next.js"]);
+    });
+
+    it("matches quoted phrases only when the words are consecutive", () => {
+      expect(engine.searchQuery('"server rendering"').map((r) => r.id)).toEqual(
+        ["vercel/next.js"]
+      );
+      expect(engine.searchQuery('"rendering server"')).toEqual([]);
+    });
+
+    it("returns nothing for exclusion-only queries", () => {
+      expect(engine.searchQuery("-wasm")).toEqual([]);
+    });
+
+    it("reports the tokens of matched clauses", () => {
+      const [result] = engine.searchQuery("name:router +react");
+      expect(result?.matchedTokens).toEqual(
+        expect.arrayContaining(["router", "react"])
+      );
+    });
+  });
+
   describe("field weighting", () => {
     beforeEach(() => {
       engine.add(
@@ -184,6 +257,174 @@ describe("RepositorySearchEngine", () => {
     });
   });
 
+  describe("BM25F length normalization", () => {
+    const NOISE_README_WORDS = 3000;
+    const TYPICAL_README_WORDS = 300;
+    const DISTINCT_README_WORDS = 50;
+    const buildReadme = (wordCount: number, prefix: string) =>
+      Array.from(
+        { length: wordCount },
+        (_, i) => `${prefix}${i % DISTINCT_README_WORDS}`
+      ).join(" ");
+
+    beforeEach(() => {
+      engine.add(
+        createMockRepository(
+          "owner",
+          "tokenizer",
+          null,
+          buildReadme(NOISE_README_WORDS, "noise")
+        )
+      );
+      engine.add(
+        createMockRepository(
+          "owner",
+          "text-tools",
+          null,
+          `${buildReadme(TYPICAL_README_WORDS, "filler")} tokenizer`
+        )
+      );
+      engine.add(
+        createMockRepository(
+          "owner",
+          "first-unrelated",
+          null,
+          buildReadme(TYPICAL_README_WORDS, "filler")
+        )
+      );
+      engine.add(
+        createMockRepository(
+          "owner",
+          "second-unrelated",
+          null,
+          buildReadme(TYPICAL_README_WORDS, "filler")
+        )
+      );
+      engine.consolidate();
+    });
+
+    it("ranks a short name hit above README noise despite a huge README", () => {
+      const results = engine.search(["tokenizer"]);
+      expect(results[0]?.repository.name).toBe("tokenizer");
+    });
+
+    it("scores a name match independently of README length", () => {
+      const lean = new RepositorySearchEngine();
+      lean.add(createMockRepository("owner", "tokenizer", null, "short"));
+      lean.add(createMockRepository("owner", "text-tools", null, "tokenizer"));
+      lean.add(createMockRepository("owner", "first-unrelated", null, "short"));
+      lean.add(
+        createMockRepository("owner", "second-unrelated", null, "short")
+      );
+      lean.consolidate();
+
+      const [withLongReadme] = engine.searchQuery("name:tokenizer");
+      const [withShortReadme] = lean.searchQuery("name:tokenizer");
+      expect(withLongReadme?.score).toBeCloseTo(withShortReadme?.score ?? 0);
+    });
+
+    it("applies per-field b parameters", () => {
+      const unnormalized = new RepositorySearchEngine({
+        fieldB: { readme: 0, readmeIntro: 0 },
+      });
+      unnormalized.add(
+        createMockRepository("owner", "short", null, "parser parser")
+      );
+      unnormalized.add(
+        createMockRepository(
+          "owner",
+          "long",
+          null,
+          `parser parser ${buildReadme(TYPICAL_README_WORDS, "filler")}`
+        )
+      );
+      unnormalized.consolidate();
+
+      const [first, second] = unnormalized.search(["parser"]);
+      expect(first?.score).toBeCloseTo(second?.score ?? 0);
+    });
+  });
+
+  describe("Markdown READMEs", () => {
+    const badgeReadme = (project: string) =>
+      Array.from(
+        { length: 8 },
+        (_, index) =>
+          `[![coverage ${index}](https://img.shields.io/badge/coverage-${project}.svg)](https://codecov.io/${project})`
+      ).join("\n");
+
+    beforeEach(() => {
+      engine.add(
+        createMockRepository(
+          "acme",
+          "badges",
+          null,
+          `# Badges\n\n${badgeReadme("badges")}\n\nA tiny library.\n\nParses any date.`
+        )
+      );
+      engine.add(
+        createMockRepository(
+          "acme",
+          "coverage-reporter",
+          null,
+          "# Coverage reporter\n\nUpload coverage reports from CI."
+        )
+      );
+      engine.add(
+        createMockRepository(
+          "acme",
+          "snippets",
+          null,
+          "# Snippets\n\nUtilities.\n\n```js\nconst coverage = run()\n```"
+        )
+      );
+      engine.add(
+        createMockRepository(
+          "acme",
+          "license-only",
+          null,
+          "# Date helpers\n\nHelpers.\n\n## License\n\nMIT coverage"
+        )
+      );
+      engine.consolidate();
+    });
+
+    it("ignores badge URLs and labels", () => {
+      const ids = engine.search(["coverage"]).map((result) => result.id);
+      expect(ids).toEqual(["acme/coverage-reporter"]);
+    });
+
+    it("ignores fenced code", () => {
+      expect(engine.search(["const"])).toEqual([]);
+    });
+
+    it("ranks heading matches above body matches", () => {
+      const ids = engine.search(["date"]).map((result) => result.id);
+      expect(ids).toEqual(["acme/license-only", "acme/badges"]);
+    });
+
+    it("returns highlighted README passages", () => {
+      const [result] = engine.search(["reports"]);
+      // `reports` also reaches the `Coverage reporter` heading.
+      const snippet = result?.snippets.find((candidate) =>
+        candidate.text.startsWith("Upload")
+      );
+      expect(snippet?.text).toBe("Upload coverage reports from CI.");
+      expect(
+        snippet?.highlights.map(({ start, end }) =>
+          snippet.text.slice(start, end)
+        )
+      ).toEqual(["reports"]);
+    });
+
+    it("searches README sub-fields through the readme scope", () => {
+      const ids = engine
+        .searchQuery("readme:reporter")
+        .map((result) => result.id);
+      expect(ids).toEqual(["acme/coverage-reporter"]);
+    });
+  });
+
   describe("edge cases", () => {
     it("returns empty results when no documents added", () => {
       engine.consolidate();
@@ -264,6 +505,906 @@ describe("RepositorySearchEngine", () => {
     });
   });
 
+  describe("multilingual text", () => {
+    beforeEach(() => {
+      engine.add(
+        createMockRepository("toss", "slash", "토스 프론트엔드 라이브러리 모음")
+      );
+      engine.add(createMockRepository("yomi", "kana", "日本語の形態素解析器"));
+      engine.add(
+        createMockRepository("cafe", "menu", "Crème brûlée recipes for café")
+      );
+      engine.consolidate();
+    });
+
+    it("finds Korean-only descriptions", () => {
+      expect(engine.search(["라이브러리"])[0]?.id).toBe("toss/slash");
+    });
+
+    it("matches Korean words with attached particles", () => {
+      expect(engine.search(["프론트엔드를"])[0]?.id).toBe("toss/slash");
+    });
+
+    it("finds Japanese text by a contained word", () => {
+      expect(engine.search(["形態素"])[0]?.id).toBe("yomi/kana");
+    });
+
+    it("matches accented text without accents", () => {
+      expect(engine.search(["creme brulee"])[0]?.id).toBe("cafe/menu");
+    });
+
+    it("matches CJK phrases in query syntax", () => {
+      expect(engine.searchQuery('"프론트엔드 라이브러리"')).toHaveLength(1);
+      expect(engine.searchQuery('"라이브러리 프론트엔드"')).toEqual([]);
+    });
+  });
+
+  describe("stemming and identifier splitting", () => {
+    beforeEach(() => {
+      engine.add(
+        createMockRepository("acme", "markdown-parser", "A fast parser")
+      );
+      engine.add(
+        createMockRepository("acme", "parsing-guide", "Notes on parsing")
+      );
+      engine.add(
+        createMockRepository("TanStack", "query", "Powerful data fetching")
+      );
+      engine.add(
+        createMockRepository("tanstack", "TanStackRouter", "Type-safe routing")
+      );
+      engine.add(
+        createMockRepository("tkdodo", "react-query", "Hooks for fetching")
+      );
+      engine.consolidate();
+    });
+
+    it("matches other inflections through the stem", () => {
+      const ids = engine.search(["parsing"]).map((result) => result.id);
+      expect(ids).toContain("acme/markdown-parser");
+    });
+
+    it("matches the verb from its agent noun", () => {
+      const ids = engine.search(["parser"]).map((result) => result.id);
+      expect(ids).toContain("acme/parsing-guide");
+    });
+
+    it("ranks exact matches above stem-only matches", () => {
+      expect(engine.search(["parsing"])[0]?.id).toBe("acme/parsing-guide");
+      expect(engine.search(["parser"])[0]?.id).toBe("acme/markdown-parser");
+    });
+
+    it("matches the compound of a kebab-case name", () => {
+      expect(engine.search(["reactquery"])[0]?.id).toBe("tkdodo/react-query");
+    });
+
+    it("matches parts of a camelCase name", () => {
+      expect(engine.search(["router"])[0]?.id).toBe("tanstack/TanStackRouter");
+    });
+
+    it("prefers the exact identifier over its parts", () => {
+      const results = engine.search(["tanstackrouter"]);
+      expect(results[0]?.id).toBe("tanstack/TanStackRouter");
+    });
+
+    it("lets query clauses match through the stem", () => {
+      const ids = engine.searchQuery("+parsing").map((result) => result.id);
+      expect(ids).toEqual(["acme/parsing-guide", "acme/markdown-parser"]);
+    });
+
+    it("does not conflate words that only look like agent nouns", () => {
+      engine.add(
+        createMockRepository("acme", "cold-hands", "Make your fingers numb")
+      );
+      engine.consolidate();
+
+      const ids = engine.search(["number"]).map((result) => result.id);
+      expect(ids).not.toContain("acme/cold-hands");
+    });
+  });
+
+  describe("fuzzy matching", () => {
+    beforeEach(() => {
+      engine.add(
+        createMockRepository("microsoft", "typescript", "Typed JavaScript")
+      );
+      engine.add(createMockRepository("facebook", "react", "UI library"));
+      engine.add(createMockRepository("reakt", "widgets", "Widget toolkit"));
+      engine.consolidate();
+    });
+
+    it("matches misspelled keywords against the vocabulary", () => {
+      const results = engine.search(["typescirpt"]);
+      expect(results[0]?.id).toBe("microsoft/typescript");
+    });
+
+    it("reports the vocabulary term that matched", () => {
+      const results = engine.search(["typscript"]);
+      expect(results[0]?.matchedTokens).toContain("typescript");
+    });
+
+    it("scores fuzzy hits below exact hits", () => {
+      const results = engine.search(["reakt"]);
+      expect(results.map((result) => result.id)).toEqual(["reakt/widgets"]);
+
+      const [exact] = engine.search(["react"]);
+      const [fuzzy] = engine.search(["raect"]);
+      expect(fuzzy?.id).toBe("facebook/react");
+      expect(fuzzy?.score).toBeLessThan(exact?.score ?? 0);
+    });
+
+    it("does not expand short terms", () => {
+      expect(engine.search(["ux"])).toEqual([]);
+    });
+
+    it("can be disabled", () => {
+      const strictEngine = new RepositorySearchEngine({
+        maxFuzzyExpansions: 0,
+      });
+      strictEngine.add(createMockRepository("facebook", "react"));
+      expect(strictEngine.search(["raect"])).toEqual([]);
+    });
+
+    it("applies to query syntax clauses", () => {
+      const results = engine.searchQuery("+typescirpt -reakt");
+      expect(results.map((result) => result.id)).toEqual([
+        "microsoft/typescript",
+      ]);
+      expect(results[0]?.matchedTokens).toEqual(["typescript"]);
+    });
+
+    it("picks up vocabulary added after the first lookup", () => {
+      engine.search(["vitest"]);
+      engine.add(createMockRepository("vitest-dev", "vitest"));
+      expect(engine.search(["vitets"])[0]?.id).toBe("vitest-dev/vitest");
+    });
+  });
+
+  describe("score explanations", () => {
+    beforeEach(() => {
+      engine.add(
+        createMockRepository(
+          "microsoft",
+          "typescript",
+          "TypeScript is JavaScript with syntax for types",
+          "# TypeScript\n\nTypeScript adds optional types to JavaScript."
+        )
+      );
+      engine.add(createMockRepository("facebook", "react", "UI library"));
+      engine.consolidate();
+    });
+
+    it("adds up to the search score", () => {
+      const keywords = ["typescript", "javascript", "types"];
+      const [result] = engine.search(keywords);
+      const explanation = engine.explain("microsoft/typescript", keywords);
+
+      expect(explanation?.score).toBeCloseTo(result?.score ?? 0);
+    });
+
+    it("matches the search score to its precision at the same time", () => {
+      const PRECISION_DIGITS = 10;
+      const YEAR_IN_MS = 31_536_000_000;
+      const now = Date.now() + YEAR_IN_MS;
+      const keywords = ["typescript", "javascript", "types"];
+      const [result] = engine.search(keywords, { now });
+      const explanation = engine.explain("microsoft/typescript", keywords, now);
+
+      expect(explanation?.score).toBeCloseTo(
+        result?.score ?? 0,
+        PRECISION_DIGITS
+      );
+    });
+
+    it("breaks terms down per field", () => {
+      const explanation = engine.explain("microsoft/typescript", [
+        "typescript",
+      ]);
+      const [term] = explanation?.terms ?? [];
+
+      expect(term?.token).toBe("typescript");
+      expect(term?.match).toBe("exact");
+      expect(term?.fields.map((field) => field.field)).toEqual([
+        "name",
+        "description",
+        "readme",
+        "readmeHeadings",
+        "readmeIntro",
+      ]);
+      expect(term?.fields[0]?.termFrequency).toBe(1);
+    });
+
+    it("lists keywords the repository does not contain with a zero score", () => {
+      const explanation = engine.explain("facebook/react", ["react", "vue"]);
+
+      expect(explanation?.terms).toHaveLength(1);
+      expect(engine.explain("facebook/react", ["typescript"])?.terms).toEqual([
+        expect.objectContaining({ token: "typescript", score: 0, fields: [] }),
+      ]);
+    });
+
+    it("reports fuzzy matches with their reduced weight", () => {
+      const explanation = engine.explain("facebook/react", ["raect"]);
+      const [term] = explanation?.terms ?? [];
+
+      expect(term).toMatchObject({ keyword: "raect", token: "react" });
+      expect(term?.match).toBe("fuzzy");
+      expect(term?.queryWeight).toBeLessThan(1);
+    });
+
+    it("returns null for unknown repositories", () => {
+      expect(engine.explain("unknown/repo", ["react"])).toBeNull();
+    });
+  });
+
+  describe("diagnostics", () => {
+    beforeEach(() => {
+      engine.add(
+        createMockRepository("vitejs", "vite", "Frontend build tool", null)
+      );
+      engine.add(
+        createMockRepository(
+          "webpack",
+          "webpack",
+          "A bundler for JavaScript",
+          "# webpack\n\nA build tool and module bundler."
+        )
+      );
+      engine.add(
+        createMockRepository("rollup", "rollup", "Module bundler", null)
+      );
+      engine.consolidate();
+    });
+
+    it("reports the rank and score a repository gets", () => {
+      const [first, second] = engine.search(["bundler"]);
+      const diagnosis = engine.diagnose(second?.id ?? "", ["bundler"]);
+
+      expect(diagnosis.rank).toBe(2);
+      expect(diagnosis.score).toBeCloseTo(second?.score ?? 0);
+      expect(diagnosis.matchCount).toBe(2);
+      expect(diagnosis.isInTopResults).toBe(true);
+      expect(first?.id).not.toBe(diagnosis.id);
+    });
+
+    it("reports the score needed to enter the top results", () => {
+      const [first, second] = engine.search(["bundler"]);
+      const diagnosis = engine.diagnose(second?.id ?? "", ["bundler"], {
+        limit: 1,
+      });
+
+      expect(diagnosis.isInTopResults).toBe(false);
+      expect(diagnosis.cutoffScore).toBeCloseTo(first?.score ?? 0);
+      expect(diagnosis.scoreGap).toBeCloseTo(
+        (first?.score ?? 0) - (second?.score ?? 0)
+      );
+    });
+
+    it("lists which keywords missed and which fields are empty", () => {
+      const diagnosis = engine.diagnose("vitejs/vite", ["build", "bundler"]);
+
+      expect(diagnosis.keywords).toEqual([
+        { keyword: "build", matchedTokens: ["build"] },
+        { keyword: "bundler", matchedTokens: [] },
+      ]);
+      expect(diagnosis.hasReadme).toBe(false);
+      expect(diagnosis.fieldLengths.readme).toBe(0);
+      expect(diagnosis.fieldLengths.description).toBeGreaterThan(0);
+    });
+
+    it("reports repositories no keyword reached", () => {
+      const diagnosis = engine.diagnose("vitejs/vite", ["compiler"]);
+
+      expect(diagnosis.rank).toBeNull();
+      expect(diagnosis.score).toBe(0);
+      expect(diagnosis.isInTopResults).toBe(false);
+    });
+
+    it("matches ids case-insensitively", () => {
+      const diagnosis = engine.diagnose("ViteJS/Vite", ["vite"]);
+
+      expect(diagnosis.id).toBe("vitejs/vite");
+      expect(diagnosis.isIndexed).toBe(true);
+    });
+
+    it("reports repositories missing from the index", () => {
+      const diagnosis = engine.diagnose("unknown/repo", ["vite"]);
+
+      expect(diagnosis.isIndexed).toBe(false);
+      expect(diagnosis.keywords).toEqual([
+        { keyword: "vite", matchedTokens: [] },
+      ]);
+    });
+  });
+
+  describe("filters and sorting", () => {
+    beforeEach(() => {
+      engine.add({
+        ...createMockRepository("sveltejs", "svelte", "Web UI framework"),
+        stargazerCount: 80_000,
+        starredAt: "2021-05-01T00:00:00Z",
+        pushedAt: "2025-01-01T00:00:00Z",
+      });
+      engine.add({
+        ...createMockRepository("solidjs", "solid", "Reactive UI framework"),
+        stargazerCount: 30_000,
+        starredAt: "2023-08-01T00:00:00Z",
+        pushedAt: "2024-06-01T00:00:00Z",
+      });
+      engine.add({
+        ...createMockRepository("someone", "tiny-ui", "A UI framework"),
+        stargazerCount: 12,
+        starredAt: "2023-02-01T00:00:00Z",
+        pushedAt: "2019-01-01T00:00:00Z",
+      });
+      engine.consolidate();
+    });
+
+    const ids = (results: { id: string }[]) =>
+      results.map((result) => result.id);
+
+    it("filters results by metadata ranges", () => {
+      const results = engine.search(["framework"], {
+        filters: {
+          starredAt: { from: "2023-01-01", to: "2024-01-01" },
+          stargazerCount: { min: 1000 },
+        },
+      });
+      expect(ids(results)).toEqual(["solidjs/solid"]);
+    });
+
+    it("applies filters before the limit", () => {
+      const results = engine.search(["framework"], {
+        limit: 1,
+        filters: { pushedAt: { to: "2020-01-01" } },
+      });
+      expect(ids(results)).toEqual(["someone/tiny-ui"]);
+    });
+
+    it("sorts by metadata", () => {
+      expect(ids(engine.search(["framework"], { sort: "stars" }))).toEqual([
+        "sveltejs/svelte",
+        "solidjs/solid",
+        "someone/tiny-ui",
+      ]);
+      expect(ids(engine.search(["framework"], { sort: "starredAt" }))).toEqual([
+        "solidjs/solid",
+        "someone/tiny-ui",
+        "sveltejs/svelte",
+      ]);
+      expect(ids(engine.search(["framework"], { sort: "pushedAt" }))).toEqual([
+        "sveltejs/svelte",
+        "solidjs/solid",
+        "someone/tiny-ui",
+      ]);
+    });
+
+    it("applies to query syntax searches", () => {
+      const results = engine.searchQuery("framework -svelte", {
+        sort: "stars",
+        filters: { stargazerCount: { max: 100 } },
+      });
+      expect(ids(results)).toEqual(["someone/tiny-ui"]);
+    });
+
+    it("reports filtered-out repositories in diagnostics", () => {
+      const diagnosis = engine.diagnose("sveltejs/svelte", ["framework"], {
+        filters: { stargazerCount: { max: 100 } },
+      });
+      expect(diagnosis.isFilteredOut).toBe(true);
+      expect(diagnosis.rank).toBeNull();
+    });
+  });
+
+  describe("score priors", () => {
+    const DAY_IN_MS = 86_400_000;
+    const RECENT_DAYS = 3;
+    const OLD_DAYS = 2000;
+    const STALE_AFTER_DAYS = 365;
+    const STALE_PENALTY = 0.5;
+    const daysAgo = (days: number) =>
+      new Date(Date.now() - days * DAY_IN_MS).toISOString();
+    const createRanked = (
+      name: string,
+      metadata: Partial<StarredRepository>
+    ): StarredRepository => ({
+      ...createMockRepository("owner", name, "State management library"),
+      ...metadata,
+    });
+    const addPair = (
+      target: RepositorySearchEngine,
+      left: Partial<StarredRepository>,
+      right: Partial<StarredRepository>
+    ) => {
+      target.add(createRanked("left", left));
+      target.add(createRanked("right", right));
+      target.consolidate();
+    };
+    const topId = (target: RepositorySearchEngine) =>
+      target.search(["state"])[0]?.id;
+
+    it("boosts widely used repositories on equal text scores", () => {
+      addPair(engine, { stargazerCount: 5 }, { stargazerCount: 40_000 });
+      expect(topId(engine)).toBe("owner/right");
+    });
+
+    it("boosts recently starred repositories on equal text scores", () => {
+      addPair(
+        engine,
+        { starredAt: daysAgo(OLD_DAYS) },
+        { starredAt: daysAgo(RECENT_DAYS) }
+      );
+      expect(topId(engine)).toBe("owner/right");
+    });
+
+    it("measures recency from the given time", () => {
+      engine.add(createRanked("left", { starredAt: daysAgo(RECENT_DAYS) }));
+      engine.consolidate();
+      const later = Date.now() + OLD_DAYS * DAY_IN_MS;
+
+      const [atStar] = engine.search(["state"], { now: Date.now() });
+      const [atLater] = engine.search(["state"], { now: later });
+      const [again] = engine.search(["state"], { now: later });
+
+      expect(atLater?.score).toBeLessThan(atStar?.score ?? 0);
+      expect(again?.score).toBe(atLater?.score);
+    });
+
+    it("penalizes stale repositories when enabled", () => {
+      const strictEngine = new RepositorySearchEngine({
+        priors: {
+          stalePenalty: STALE_PENALTY,
+          staleAfterDays: STALE_AFTER_DAYS,
+        },
+      });
+      addPair(
+        strictEngine,
+        { pushedAt: daysAgo(RECENT_DAYS) },
+        { pushedAt: daysAgo(OLD_DAYS) }
+      );
+      const [fresh, stale] = strictEngine.search(["state"]);
+      expect(fresh?.id).toBe("owner/left");
+      expect(stale?.score).toBeCloseTo(
+        (fresh?.score ?? 0) * (1 - STALE_PENALTY)
+      );
+    });
+
+    it("does not let priors outweigh a better text match by default", () => {
+      engine.add({
+        ...createMockRepository("owner", "state", "State library for state"),
+        stargazerCount: 1,
+        starredAt: daysAgo(OLD_DAYS),
+      });
+      engine.add({
+        ...createMockRepository("owner", "popular", "A library with state"),
+        stargazerCount: 200_000,
+        starredAt: daysAgo(RECENT_DAYS),
+      });
+      engine.consolidate();
+      expect(topId(engine)).toBe("owner/state");
+    });
+
+    it("supports additive combination", () => {
+      const additive = new RepositorySearchEngine({
+        priors: { mode: "add", starWeight: 1, starredAtWeight: 0 },
+      });
+      const plain = new RepositorySearchEngine({ priors: { mode: "none" } });
+      for (const target of [additive, plain]) {
+        target.add(createRanked("left", { stargazerCount: 99 }));
+        target.consolidate();
+      }
+      const [withPriors] = additive.search(["state"]);
+      const [withoutPriors] = plain.search(["state"]);
+      expect(withPriors?.score).toBeCloseTo((withoutPriors?.score ?? 0) + 2);
+    });
+
+    it("ranks by text alone when disabled", () => {
+      const plain = new RepositorySearchEngine({ priors: { mode: "none" } });
+      addPair(plain, { stargazerCount: 5 }, { stargazerCount: 40_000 });
+      const [first, second] = plain.search(["state"]);
+      expect(first?.score).toBe(second?.score);
+    });
+
+    it("reports the priors in score explanations", () => {
+      addPair(engine, { stargazerCount: 999 }, { stargazerCount: 5 });
+      const [result] = engine.search(["state"]);
+      const explanation = engine.explain("owner/left", ["state"]);
+
+      expect(explanation?.score).toBeCloseTo(result?.score ?? 0);
+      expect(explanation?.score).toBeGreaterThan(explanation?.textScore ?? 0);
+      expect(explanation?.priors.starBoost).toBeGreaterThan(0);
+    });
+  });
+
+  describe("similar repositories", () => {
+    beforeEach(() => {
+      engine.add(
+        createMockRepository(
+          "pmndrs",
+          "jotai",
+          "Primitive and flexible state management for React"
+        )
+      );
+      engine.add(
+        createMockRepository(
+          "pmndrs",
+          "valtio",
+          "Simple proxy state management for React"
+        )
+      );
+      engine.add(
+        createMockRepository(
+          "vitejs",
+          "vite",
+          "Next generation frontend tooling"
+        )
+      );
+      engine.add(
+        createMockRepository("rust-lang", "rust", "Systems programming")
+      );
+      engine.consolidate();
+    });
+
+    it("returns the nearest repositories without the source", () => {
+      const results = engine.similar("pmndrs/jotai");
+
+      expect(results[0]?.id).toBe("pmndrs/valtio");
+      expect(results.map((result) => result.id)).not.toContain("pmndrs/jotai");
+      expect(results[0]?.matchedTokens).toContain("management");
+    });
+
+    it("resolves ids case-insensitively and honors the limit", () => {
+      expect(engine.similar("PMNDRS/Jotai", 1)).toHaveLength(1);
+    });
+
+    it("returns nothing for unknown or unrelated repositories", () => {
+      expect(engine.similar("missing/repo")).toEqual([]);
+      expect(engine.similar("rust-lang/rust")).toEqual([]);
+    });
+  });
+
+  describe("topic clusters", () => {
+    it("clusters every indexed repository", () => {
+      engine.add(
+        createMockRepository("pmndrs", "jotai", "State management for React")
+      );
+      engine.add(
+        createMockRepository("pmndrs", "valtio", "Proxy state management")
+      );
+      engine.add(
+        createMockRepository("rust-lang", "cargo", "The Rust package manager")
+      );
+      engine.add(createMockRepository("rust-lang", "rustup", "Rust installer"));
+      engine.add(createMockRepository("someone", "empty"));
+      engine.consolidate();
+
+      const { clusters, unclusteredIds } = engine.cluster({ k: 2 });
+
+      expect(unclusteredIds).toEqual(["someone/empty"]);
+      expect(clusters.map((cluster) => cluster.repositoryIds.sort())).toEqual(
+        expect.arrayContaining([
+          ["pmndrs/jotai", "pmndrs/valtio"],
+          ["rust-lang/cargo", "rust-lang/rustup"],
+        ])
+      );
+    });
+  });
+
+  describe("alternatives", () => {
+    it("groups repositories sharing topics and vocabulary", () => {
+      engine.add({
+        ...createMockRepository("pmndrs", "zustand", "State management"),
+        topics: ["react", "state-management"],
+      });
+      engine.add({
+        ...createMockRepository("pmndrs", "jotai", "Atomic state management"),
+        topics: ["react", "state-management"],
+      });
+      engine.add(
+        createMockRepository("rust-lang", "cargo", "The Rust package manager")
+      );
+      engine.consolidate();
+
+      const [group] = engine.alternatives();
+
+      expect(group?.repositoryIds.sort()).toEqual([
+        "pmndrs/jotai",
+        "pmndrs/zustand",
+      ]);
+      expect(group?.sharedTopics).toEqual(["react", "state-management"]);
+    });
+  });
+
+  describe("personal boosts", () => {
+    const LIKED_WEIGHT = 0.5;
+
+    beforeEach(() => {
+      engine.add(
+        createMockRepository("pmndrs", "zustand", "Bear necessities for state")
+      );
+      engine.add(
+        createMockRepository("reduxjs", "redux", "Predictable state container")
+      );
+      engine.add(
+        createMockRepository(
+          "pmndrs",
+          "jotai",
+          "Primitive and flexible state management for React"
+        )
+      );
+      engine.add(
+        createMockRepository(
+          "pmndrs",
+          "valtio",
+          "Simple proxy state management for React"
+        )
+      );
+      engine.consolidate();
+    });
+
+    it("does not personalize without likes", () => {
+      const results = engine.search(["state"]);
+      expect(results.every((result) => result.personalMatch === null)).toBe(
+        true
+      );
+    });
+
+    it("boosts repositories liked before", () => {
+      const before = engine.search(["state"], { limit: 4 });
+      engine.setLikedRepositories(["reduxjs/redux", "REDUXJS/redux"]);
+      const after = engine.search(["state"], { limit: 4 });
+
+      const isRedux = ({ id }: { id: string }) => id === "reduxjs/redux";
+      const redux = after.find(isRedux);
+      const unboosted = before.find(isRedux);
+      expect(redux?.personalMatch).toEqual({ kind: "liked", likeCount: 2 });
+      expect(redux?.score).toBeCloseTo(
+        (unboosted?.score ?? 0) * (1 + LIKED_WEIGHT),
+        1
+      );
+    });
+
+    it("boosts repositories similar to liked ones", () => {
+      engine.setLikedRepositories(["pmndrs/jotai"]);
+      const [, ...rest] = engine.search(["state"], { limit: 4 });
+      const valtio = rest.find((result) => result.id === "pmndrs/valtio");
+
+      expect(valtio?.personalMatch).toMatchObject({
+        kind: "similar",
+        likedId: "pmndrs/jotai",
+      });
+      expect(
+        rest.find((result) => result.id === "reduxjs/redux")?.personalMatch
+      ).toBeNull();
+    });
+
+    it("ignores likes when priors are disabled", () => {
+      const plain = new RepositorySearchEngine({ priors: { mode: "none" } });
+      plain.add(createMockRepository("reduxjs", "redux", "State container"));
+      plain.setLikedRepositories(["reduxjs/redux"]);
+      const [result] = plain.search(["state"]);
+      expect(result?.personalMatch).toBeNull();
+    });
+
+    it("reports the personal boost in score explanations", () => {
+      engine.setLikedRepositories(["reduxjs/redux"]);
+      const explanation = engine.explain("reduxjs/redux", ["state"]);
+
+      expect(explanation?.personalMatch?.kind).toBe("liked");
+      expect(explanation?.priors.personalBoost).toBe(LIKED_WEIGHT);
+    });
+  });
+
+  describe("top-k pruning", () => {
+    const CORPUS_SIZE = 300;
+    const VOCABULARY = [
+      "state",
+      "react",
+      "store",
+      "rust",
+      "parser",
+      "json",
+      "cli",
+      "http",
+      "server",
+      "database",
+      "query",
+      "graph",
+      "editor",
+      "plugin",
+      "theme",
+      "router",
+    ];
+    const WORD_STEP = 7;
+    const STAR_STEP = 997;
+    const MAX_STARS = 50_000;
+    const MAX_WORDS = 5;
+    const SCORE_TOLERANCE = 1e-6;
+
+    const buildEngine = (
+      topKPruning: boolean,
+      overrides: EngineConfigOverrides = {}
+    ) => {
+      const target = new RepositorySearchEngine({ ...overrides, topKPruning });
+      for (let index = 0; index < CORPUS_SIZE; index++) {
+        const words = Array.from(
+          { length: (index % MAX_WORDS) + 1 },
+          (_, word) =>
+            VOCABULARY[(index + word * WORD_STEP) % VOCABULARY.length]
+        );
+        target.add({
+          ...createMockRepository(
+            "owner",
+            `repo-${index}`,
+            words.join(" "),
+            words.slice().reverse().join(" ")
+          ),
+          stargazerCount: (index * STAR_STEP) % MAX_STARS,
+        });
+      }
+      target.consolidate();
+      return target;
+    };
+    // Pruning sums term scores in a different order, and the recency prior
+    // decays a little between two searches, so the last digits may differ.
+    const getScoreDrift = (
+      actual: { score: number }[],
+      expected: { score: number }[]
+    ) =>
+      actual.length === expected.length
+        ? Math.max(
+            0,
+            ...actual.map(({ score }, index) =>
+              Math.abs(score - (expected[index]?.score ?? 0))
+            )
+          )
+        : Number.POSITIVE_INFINITY;
+
+    it("returns the same scores as scoring every match", () => {
+      const pruned = buildEngine(true);
+      const exhaustive = buildEngine(false);
+
+      for (const keywords of [
+        ["state"],
+        ["state", "react", "store"],
+        ["rust", "parser", "json", "cli", "http"],
+        VOCABULARY,
+      ]) {
+        expect(
+          getScoreDrift(pruned.search(keywords), exhaustive.search(keywords))
+        ).toBeLessThan(SCORE_TOLERANCE);
+      }
+    });
+
+    it("keeps matched tokens complete for returned repositories", () => {
+      const pruned = buildEngine(true);
+      const exhaustive = buildEngine(false);
+      const keywords = ["state", "react", "store"];
+      const expected = new Map(
+        exhaustive
+          .search(keywords, { limit: CORPUS_SIZE })
+          .map(({ id, matchedTokens }) => [id, matchedTokens.sort()])
+      );
+
+      for (const { id, matchedTokens } of pruned.search(keywords)) {
+        expect(matchedTokens.sort()).toEqual(expected.get(id));
+      }
+    });
+
+    it("holds with filters, likes and additive priors", () => {
+      const pruned = buildEngine(true);
+      const exhaustive = buildEngine(false);
+      const likedIds = ["owner/repo-3", "owner/repo-10"];
+      pruned.setLikedRepositories(likedIds);
+      exhaustive.setLikedRepositories(likedIds);
+      const options = {
+        limit: 5,
+        filters: { stargazerCount: { min: 10_000 } },
+      };
+
+      expect(
+        getScoreDrift(
+          pruned.search(["graph", "editor"], options),
+          exhaustive.search(["graph", "editor"], options)
+        )
+      ).toBeLessThan(SCORE_TOLERANCE);
+
+      const additive = { priors: { mode: "add" as const } };
+      expect(
+        getScoreDrift(
+          buildEngine(true, additive).search(["json", "cli"]),
+          buildEngine(false, additive).search(["json", "cli"])
+        )
+      ).toBeLessThan(SCORE_TOLERANCE);
+    });
+
+    it("holds after a metadata update raises the most stars", () => {
+      const starsOnly = { priors: { starWeight: 1, starredAtWeight: 0 } };
+      const pruned = buildEngine(true, starsOnly);
+      const exhaustive = buildEngine(false, starsOnly);
+      const options = { limit: 1 };
+      // Warm the pruning bound before the star count changes.
+      pruned.search(["parser"], options);
+      for (const target of [pruned, exhaustive]) {
+        const [last] = target
+          .search(["parser"], { limit: CORPUS_SIZE })
+          .slice(-1);
+        if (last) {
+          target.update({
+            ...last.repository,
+            stargazerCount: MAX_STARS * MAX_STARS,
+          });
+        }
+      }
+
+      expect(pruned.search(["parser"], options).map(({ id }) => id)).toEqual(
+        exhaustive.search(["parser"], options).map(({ id }) => id)
+      );
+    });
+  });
+
+  describe("pagination", () => {
+    const TIED_COUNT = 5;
+    const PAGE_SIZE = 2;
+    const STARRED_AT = "2024-01-01T00:00:00Z";
+
+    // Identical repositories tie on every score, so only the id orders them.
+    const buildTiedEngine = (topKPruning: boolean) => {
+      const target = new RepositorySearchEngine({ topKPruning });
+      for (let index = TIED_COUNT - 1; index >= 0; index--) {
+        target.add({
+          ...createMockRepository("owner", `tied-${index}`, "state store"),
+          starredAt: STARRED_AT,
+        });
+      }
+      target.consolidate();
+      return target;
+    };
+
+    it("pages through one stable ranking", () => {
+      for (const topKPruning of [true, false]) {
+        const target = buildTiedEngine(topKPruning);
+        const all = target
+          .search(["state"], { limit: TIED_COUNT })
+          .map(({ id }) => id);
+        const paged: string[] = [];
+        for (let offset = 0; offset < TIED_COUNT; offset += PAGE_SIZE) {
+          for (const { id } of target.search(["state"], {
+            limit: PAGE_SIZE,
+            offset,
+          })) {
+            paged.push(id);
+          }
+        }
+
+        expect(all).toEqual([...all].sort());
+        expect(paged).toEqual(all);
+      }
+    });
+
+    it("returns nothing past the last match", () => {
+      const target = buildTiedEngine(true);
+
+      expect(target.search(["state"], { offset: TIED_COUNT })).toEqual([]);
+    });
+
+    it("pages in the requested sort order", () => {
+      const target = buildTiedEngine(false);
+      const all = target
+        .search(["state"], { limit: TIED_COUNT, sort: "stars" })
+        .map(({ id }) => id);
+      const secondPage = target
+        .search(["state"], {
+          limit: PAGE_SIZE,
+          offset: PAGE_SIZE,
+          sort: "stars",
+        })
+        .map(({ id }) => id);
+
+      expect(secondPage).toEqual(all.slice(PAGE_SIZE, PAGE_SIZE * 2));
+    });
+  });
+
   describe("keyword normalization", () => {
     beforeEach(() => {
       engine.add(
@@ -352,6 +1493,156 @@ describe("RepositorySearchEngine", () => {
     });
   });
 
+  describe("incremental updates", () => {
+    const buildCorpus = () => [
+      createMockRepository(
+        "facebook",
+        "react",
+        "A JavaScript library for building user interfaces"
+      ),
+      createMockRepository("vercel", "next.js", "The React Framework"),
+      createMockRepository("angular", "angular", "The web platform"),
+    ];
+
+    it("removes a repository from the index", () => {
+      for (const repo of buildCorpus()) {
+        engine.add(repo);
+      }
+      engine.consolidate();
+
+      expect(engine.remove("angular/angular")).toBe(true);
+      expect(engine.size).toBe(2);
+      expect(engine.has("angular/angular")).toBe(false);
+      expect(engine.search(["platform"])).toEqual([]);
+    });
+
+    it("returns false when removing an unknown repository", () => {
+      expect(engine.remove("missing/repo")).toBe(false);
+    });
+
+    it("re-indexes a repository whose text changed", () => {
+      engine.add(createMockRepository("owner", "tool", "old summary"));
+      engine.consolidate();
+
+      engine.update(createMockRepository("owner", "tool", "new summary"));
+
+      expect(engine.size).toBe(1);
+      expect(engine.search(["old"])).toEqual([]);
+      expect(engine.search(["new"])[0]?.id).toBe("owner/tool");
+    });
+
+    it("swaps metadata without re-indexing unchanged text", () => {
+      engine.add(createMockRepository("owner", "tool", "summary"));
+      engine.consolidate();
+
+      const updated = {
+        ...createMockRepository("owner", "tool", "summary"),
+        stargazerCount: 5000,
+      };
+      engine.update(updated);
+
+      expect(engine.search(["summary"])[0]?.repository).toBe(updated);
+    });
+
+    it("adds unknown repositories on update", () => {
+      engine.update(createMockRepository("owner", "tool"));
+      expect(engine.size).toBe(1);
+    });
+
+    it("matches a full rebuild after incremental changes", () => {
+      const corpus = buildCorpus();
+      for (const repo of corpus) {
+        engine.add(repo);
+      }
+      engine.consolidate();
+
+      const added = createMockRepository("remix-run", "react-router");
+      engine.add(added);
+      engine.remove("angular/angular");
+      engine.update(
+        createMockRepository("vercel", "next.js", "React framework for the web")
+      );
+
+      const rebuilt = new RepositorySearchEngine();
+      rebuilt.add(corpus[0]);
+      rebuilt.add(
+        createMockRepository("vercel", "next.js", "React framework for the web")
+      );
+      rebuilt.add(added);
+      rebuilt.consolidate();
+
+      const incremental = engine.search(["react", "framework", "web"]);
+      const expected = rebuilt.search(["react", "framework", "web"]);
+      expect(incremental.map((r) => r.id)).toEqual(expected.map((r) => r.id));
+      for (const [index, result] of incremental.entries()) {
+        expect(result.score).toBeCloseTo(expected[index].score);
+      }
+    });
+
+    it("searches without an explicit consolidate after changes", () => {
+      engine.add(createMockRepository("owner", "test"));
+      engine.consolidate();
+      engine.add(createMockRepository("owner", "other"));
+
+      expect(engine.search(["other"])[0]?.id).toBe("owner/other");
+    });
+  });
+
+  describe("serialization", () => {
+    beforeEach(() => {
+      engine.add(
+        createMockRepository(
+          "facebook",
+          "react",
+          "A JavaScript library for building user interfaces",
+          "# React\nReact is a JavaScript library."
+        )
+      );
+      engine.add(
+        createMockRepository("vercel", "next.js", "The React Framework")
+      );
+      engine.consolidate();
+    });
+
+    it("restores an index that ranks like the original", () => {
+      const snapshot = structuredClone(engine.serialize());
+      const restored = RepositorySearchEngine.deserialize(snapshot);
+
+      expect(restored?.size).toBe(2);
+      const expected = engine.search(["react", "framework"]);
+      const actual = restored?.search(["react", "framework"]) ?? [];
+      expect(actual.map((r) => r.id)).toEqual(expected.map((r) => r.id));
+      expect(actual[0]?.score).toBeCloseTo(expected[0]?.score ?? 0);
+    });
+
+    it("keeps supporting incremental updates after restoring", () => {
+      const restored = RepositorySearchEngine.deserialize(engine.serialize());
+      restored?.remove("vercel/next.js");
+
+      expect(restored?.search(["framework"])).toEqual([]);
+    });
+
+    it("rejects snapshots from another index version", () => {
+      const snapshot = {
+        ...engine.serialize(),
+        version: SEARCH_INDEX_VERSION + 1,
+      };
+      expect(RepositorySearchEngine.deserialize(snapshot)).toBeNull();
+    });
+
+    it("rejects snapshots built with another analyzer", () => {
+      const snapshot = { ...engine.serialize(), analyzer: "ascii" };
+      expect(RepositorySearchEngine.deserialize(snapshot)).toBeNull();
+    });
+
+    it("rejects snapshots built with a different config", () => {
+      const snapshot = engine.serialize();
+      expect(
+        RepositorySearchEngine.deserialize(snapshot, { k1: 2 })
+      ).toBeNull();
+    });
+  });
+
   describe("consolidation", () => {
     it("can be called multiple times safely", () => {
       engine.add(createMockRepository("owner", "test"));
@@ -377,5 +1668,16 @@ describe("RepositorySearchEngine", () => {
 
       expect(results2.length).toBeGreaterThan(results1.length);
     });
+
+    it("returns the same scores when consolidated repeatedly", () => {
+      engine.add(createMockRepository("owner", "test", "test description"));
+      engine.add(createMockRepository("owner", "other"));
+      engine.consolidate();
+      const first = engine.search(["test"]);
+      engine.consolidate();
+      const second = engine.search(["test"]);
+
+      expect(second[0]?.score).toBeCloseTo(first[0]?.score ?? 0);
+    });
   });
 });
@@ -1,26 +1,202 @@
 import type { StarredRepository } from "@i-starred-it/api/services/github";
+import {
+  buildPostingLists,
+  createDocumentTerms,
+  type DocumentTerms,
+  EMPTY_POSTING_LISTS,
+  findPosting,
+  findTermEntries,
+  type PostingLists,
+  TermDictionary,
+  uniqueTermIds,
+} from "./compact-index";
+import { FuzzyVocabulary } from "./fuzzy-vocabulary";
+import { preprocessReadme } from "./readme-preprocessor";
+import {
+  type AlternativeGroup,
+  type AlternativeOptions,
+  findAlternativeGroups,
+} from "./repository-alternatives";
+import {
+  type ClusterOptions,
+  clusterVectors,
+  type RepositoryClustering,
+} from "./repository-clustering";
+import {
+  type Analyzer,
+  agentNounOf,
+  defaultAnalyzer,
+  stemEnglish,
+  type Token,
+} from "./search-analyzer";
+import {
+  compareBySort,
+  matchesSearchFilters,
+  type SearchFilters,
+  type SearchSort,
+} from "./search-filters";
+import { countLikes, type PersonalMatch } from "./search-personalization";
+import {
+  applyPriors,
+  computePriors,
+  type PriorBreakdown,
+  type PriorConfig,
+} from "./search-priors";
+import {
+  type ParsedQuery,
+  parseSearchQuery,
+  type QueryClause,
+  type QueryField,
+} from "./search-query-parser";
+import { buildSnippets, type SearchSnippet } from "./search-snippets";
+import {
+  cosineSimilarity,
+  normalizeVector,
+  type TermVector,
+} from "./term-vectors";
+import { TopKHeap } from "./top-k-heap";
 
-type FieldName = "owner" | "name" | "description" | "readme";
+export type FieldName =
+  | "owner"
+  | "name"
+  | "description"
+  | "readme"
+  | "readmeHeadings"
+  | "readmeIntro";
 
 type EngineConfig = {
   fieldWeights: Record<FieldName, number>;
+  /**
+   * BM25F length normalization per field. Short fields such as the name barely
+   * vary in length, so they are normalized less than the README.
+   */
+  fieldB: Record<FieldName, number>;
   k1: number;
-  b: number;
   k: number;
   delta: number;
+  /**
+   * Scales query terms that only exist as derived tokens, such as stems or
+   * identifier parts, so exact matches keep ranking first.
+   */
+  derivedTermWeight: number;
+  /**
+   * Score multiplier applied once per edit to fuzzy matches of query terms
+   * that are missing from the vocabulary.
+   */
+  fuzzyPenalty: number;
+  /** Vocabulary terms a missing query term may expand to; 0 disables. */
+  maxFuzzyExpansions: number;
   maxReadmeTokens: number;
   maxKeywords: number;
+  /**
+   * Skips repositories that provably cannot reach the top results when
+   * sorting by relevance; see `searchTopK`. Off scores every match.
+   */
+  topKPruning: boolean;
+  /**
+   * Popularity, recency and like-history signals blended into the text
+   * score.
+   */
+  priors: PriorConfig;
+};
+
+export type EngineConfigOverrides = Partial<
+  Omit<EngineConfig, "fieldWeights" | "fieldB" | "priors">
+> & {
+  fieldWeights?: Partial<Record<FieldName, number>>;
+  fieldB?: Partial<Record<FieldName, number>>;
+  priors?: Partial<PriorConfig>;
+};
+
+/**
+ * How a query token reached an index term: directly, through a derived token
+ * such as its stem, or as a fuzzy match for a term missing from the index.
+ */
+export type TermMatch = "exact" | "derived" | "fuzzy";
+
+type QueryTerm = {
+  token: string;
+  weight: number;
+  match: TermMatch;
+};
+
+type BoundedQueryTerm = QueryTerm & {
+  termId: number;
+  idf: number;
+  /** Highest weighted score the term contributes to any repository. */
+  upperBound: number;
+};
+
+type TopKContext = {
+  terms: BoundedQueryTerm[];
+  /** Entry `i` bounds the text score terms `i` and after can add. */
+  remainingBounds: number[];
+  heap: TopKHeap<RankedDocument>;
+  matches: Map<string, Set<string>>;
+  filters: SearchFilters | undefined;
+  now: number;
+};
+
+type ClauseMatch = {
+  score: number;
+  tokens: Set<string>;
 };
 
 type RepositoryDocument = {
+  id: string;
+  /** Slot in the engine's document table, which posting lists refer to. */
+  docId: number;
+  repository: StarredRepository;
+  /** Token count per field, in `FIELD_NAMES` order. */
+  lengths: Uint32Array;
+  terms: DocumentTerms;
+};
+
+type SerializedDocument = {
   id: string;
   repository: StarredRepository;
-  termFrequency: Map<string, number>;
-  length: number;
+  lengths: Uint32Array;
+  /** Indexes into the snapshot's `terms`. */
+  termIds: Uint32Array;
+  fields: Uint8Array;
+  counts: Uint16Array;
+};
+
+/**
+ * Plain-data form of a built index. Everything in it survives structured
+ * cloning, so it can be written to IndexedDB as-is. Bump
+ * `SEARCH_INDEX_VERSION` whenever the stored shape or README preprocessing
+ * changes; analyzer changes are caught by the analyzer id.
+ */
+export type SerializedSearchIndex = {
+  version: number;
+  analyzer: string;
+  config: EngineConfig;
+  /** Term dictionary; posting lists are rebuilt from the documents. */
+  terms: string[];
+  documents: SerializedDocument[];
 };
 
 export type SearchOptions = {
   limit?: number;
+  /** Results to skip before the first one returned, for later pages. */
+  offset?: number;
+  /** Metadata ranges a repository must fall in to be returned. */
+  filters?: SearchFilters;
+  /** Defaults to relevance. */
+  sort?: SearchSort;
+  /**
+   * Epoch milliseconds the recency priors are measured from; defaults to the
+   * current time.
+   */
+  now?: number;
+};
+
+type RankedDocument = {
+  id: string;
+  repository: StarredRepository;
+  score: number;
+  personalMatch: PersonalMatch | null;
 };
 
 export type RepositorySearchResult = {
@@ -28,12 +204,125 @@ export type RepositorySearchResult = {
   repository: StarredRepository;
   score: number;
   matchedTokens: string[];
+  /** README passages with the most matched tokens, best first. */
+  snippets: SearchSnippet[];
+  /** Set when the user's like history boosted the repository. */
+  personalMatch: PersonalMatch | null;
+};
+
+export type FieldScoreExplanation = {
+  field: FieldName;
+  termFrequency: number;
+  fieldLength: number;
+  averageFieldLength: number;
+  /** `1 - b + b * fieldLength / averageFieldLength` */
+  lengthNormalization: number;
+  fieldWeight: number;
+  /** `fieldWeight * termFrequency / lengthNormalization` */
+  weightedFrequency: number;
+};
+
+export type TermScoreExplanation = {
+  /** The analyzed query token. */
+  keyword: string;
+  /** The index term that was scored for it. */
+  token: string;
+  match: TermMatch;
+  /** Discount for derived and fuzzy matches; 1 for exact ones. */
+  queryWeight: number;
+  inverseDocumentFrequency: number;
+  /** Weighted frequencies summed across fields, before saturation. */
+  frequency: number;
+  score: number;
+  fields: FieldScoreExplanation[];
+};
+
+export type ScoreExplanation = {
+  id: string;
+  /** The final score, after priors. */
+  score: number;
+  /** The BM25F score summed over `terms`. */
+  textScore: number;
+  priors: PriorBreakdown;
+  personalMatch: PersonalMatch | null;
+  terms: TermScoreExplanation[];
+};
+
+export type KeywordDiagnosis = {
+  keyword: string;
+  /** Index terms the keyword reached in this repository; empty on a miss. */
+  matchedTokens: string[];
+};
+
+export type RepositoryDiagnosis = {
+  /** The indexed id, which may differ in case from the one asked about. */
+  id: string;
+  isIndexed: boolean;
+  /** True when the search filters exclude the repository. */
+  isFilteredOut: boolean;
+  hasDescription: boolean;
+  hasReadme: boolean;
+  /** Indexed length of every field in tokens; 0 for empty fields. */
+  fieldLengths: Record<FieldName, number>;
+  keywords: KeywordDiagnosis[];
+  score: number;
+  /** 1-based position among every matching repository, or null. */
+  rank: number | null;
+  matchCount: number;
+  limit: number;
+  isInTopResults: boolean;
+  /** Score of the last repository within `limit`, or 0 if fewer matched. */
+  cutoffScore: number;
+  /**
+   * Score still missing to overtake the cutoff; 0 once in the results or
+   * when sorting by something other than relevance.
+   */
+  scoreGap: number;
 };
 
+export const SEARCH_INDEX_VERSION = 7;
+
 const DEFAULT_KEYWORD_LIMIT = 64;
+const DEFAULT_SEARCH_LIMIT = 10;
 const DEFAULT_README_TOKEN_LIMIT = Number.POSITIVE_INFINITY;
 const MIN_SEARCH_RESULTS = 1;
+const SNIPPET_OPTIONS = { maxSnippets: 2, maxLength: 200 };
 const BM25_IDF_SMOOTHING = 0.5;
+const FUZZY_ONE_EDIT_MIN_LENGTH = 4;
+// Endings that show a stem is a verb, as `parse` and `parsing` do for `pars`.
+const INFLECTION_SUFFIXES = ["e", "es", "ed", "ing", "s"];
+const FUZZY_TWO_EDITS_MIN_LENGTH = 8;
+const NUMERIC_PATTERN = /^\p{N}+$/u;
+const SIMILAR_QUERY_TERM_LIMIT = 24;
+// Slack for floating-point drift between a bound and the score it bounds.
+const PRUNING_TOLERANCE = 1e-9;
+
+const FIELD_NAMES: FieldName[] = [
+  "owner",
+  "name",
+  "description",
+  "readme",
+  "readmeHeadings",
+  "readmeIntro",
+];
+
+const README_FIELDS: FieldName[] = ["readme", "readmeHeadings", "readmeIntro"];
+
+// Names are nearly unique and would dominate every vector, and long README
+// bodies share too much boilerplate, so similarity only looks at what a
+// repository says about itself.
+const SIMILARITY_FIELDS: FieldName[] = [
+  "description",
+  "readmeHeadings",
+  "readmeIntro",
+];
+
+const QUERY_FIELD_TARGETS: Record<QueryField, FieldName[]> = {
+  owner: ["owner"],
+  name: ["name"],
+  description: ["description"],
+  readme: README_FIELDS,
+};
 
 const defaultConfig: EngineConfig = {
   fieldWeights: {
@@ -41,16 +330,40 @@ const defaultConfig: EngineConfig = {
     name: 2,
     description: 1.2,
     readme: 0.4,
+    readmeHeadings: 0.6,
+    readmeIntro: 0.8,
+  },
+  fieldB: {
+    owner: 0.3,
+    name: 0.3,
+    description: 0.6,
+    readme: 0.75,
+    readmeHeadings: 0.5,
+    readmeIntro: 0.5,
   },
   k1: 1.2,
-  b: 0.75,
   k: 1,
   delta: 0.5,
+  derivedTermWeight: 0.5,
+  fuzzyPenalty: 0.5,
+  maxFuzzyExpansions: 3,
   maxReadmeTokens: DEFAULT_README_TOKEN_LIMIT,
   maxKeywords: DEFAULT_KEYWORD_LIMIT,
+  topKPruning: true,
+  priors: {
+    mode: "multiply",
+    starWeight: 0.03,
+    starredAtWeight: 0.1,
+    starredAtHalfLifeDays: 365,
+    stalePenalty: 0,
+    staleAfterDays: 730,
+    likedWeight: 0.5,
+    similarWeight: 1,
+    minSimilarity: 0.15,
+  },
 };
 
-function composeConfig(overrides?: Partial<EngineConfig>): EngineConfig {
+function composeConfig(overrides?: EngineConfigOverrides): EngineConfig {
   if (!overrides) {
     return defaultConfig;
   }
@@ -59,27 +372,28 @@ function composeConfig(overrides?: Partial<EngineConfig>): EngineConfig {
       ...defaultConfig.fieldWeights,
       ...(overrides.fieldWeights ?? {}),
     },
+    fieldB: {
+      ...defaultConfig.fieldB,
+      ...(overrides.fieldB ?? {}),
+    },
     k1: overrides.k1 ?? defaultConfig.k1,
-    b: overrides.b ?? defaultConfig.b,
     k: overrides.k ?? defaultConfig.k,
     delta: overrides.delta ?? defaultConfig.delta,
+    derivedTermWeight:
+      overrides.derivedTermWeight ?? defaultConfig.derivedTermWeight,
+    fuzzyPenalty: overrides.fuzzyPenalty ?? defaultConfig.fuzzyPenalty,
+    maxFuzzyExpansions:
+      overrides.maxFuzzyExpansions ?? defaultConfig.maxFuzzyExpansions,
     maxReadmeTokens: overrides.maxReadmeTokens ?? defaultConfig.maxReadmeTokens,
     maxKeywords: overrides.maxKeywords ?? defaultConfig.maxKeywords,
+    topKPruning: overrides.topKPruning ?? defaultConfig.topKPruning,
+    priors: {
+      ...defaultConfig.priors,
+      ...(overrides.priors ?? {}),
+    },
   };
 }
 
-function tokenize(value: string, limit?: number): string[] {
-  const lowered = value.toLowerCase();
-  const tokens = lowered.match(/[a-z0-9]+/g);
-  if (!tokens) {
-    return [];
-  }
-  if (limit && tokens.length > limit) {
-    return tokens.slice(0, limit);
-  }
-  return tokens;
-}
-
 function uniqueTokens(tokens: Iterable<string>): string[] {
   const set = new Set<string>();
   for (const token of tokens) {
@@ -92,48 +406,232 @@ function buildRepositoryId(repository: StarredRepository): string {
   return `${repository.owner}/${repository.name}`;
 }
 
-function normalizeKeywords(keywords: string[], limit: number): string[] {
-  const collected: string[] = [];
+/**
+ * Analyzes the keywords into unique tokens, keeping at most `limit` base
+ * tokens. A token seen both as a base and a derived token counts as base.
+ */
+function normalizeKeywords(
+  keywords: string[],
+  limit: number,
+  analyzer: Analyzer
+): Token[] {
+  const tokens = new Map<string, Token>();
+  let baseCount = 0;
   for (const keyword of keywords) {
-    const trimmed = keyword.trim();
-    if (trimmed.length === 0) {
-      continue;
+    const remaining = limit ? limit - baseCount : undefined;
+    if (remaining !== undefined && remaining <= 0) {
+      break;
     }
-    const tokens = tokenize(trimmed);
-    for (const token of tokens) {
-      collected.push(token);
+    for (const token of analyzer.analyze(keyword, remaining)) {
+      if (!token.isDerived) {
+        baseCount += 1;
+      }
+      const existing = tokens.get(token.text);
+      if (!existing || existing.isDerived) {
+        tokens.set(token.text, token);
+      }
     }
-    if (limit && collected.length >= limit) {
-      break;
+  }
+  return Array.from(tokens.values());
+}
+
+/**
+ * Edits tolerated for a missing query term: none for short terms and numbers,
+ * where a single edit usually means a different word.
+ */
+function getMaxEditDistance(term: string): number {
+  const length = Array.from(term).length;
+  if (NUMERIC_PATTERN.test(term) || length < FUZZY_ONE_EDIT_MIN_LENGTH) {
+    return 0;
+  }
+  return length < FUZZY_TWO_EDITS_MIN_LENGTH ? 1 : 2;
+}
+
+function createFieldTotals(): Record<FieldName, number> {
+  return {
+    owner: 0,
+    name: 0,
+    description: 0,
+    readme: 0,
+    readmeHeadings: 0,
+    readmeIntro: 0,
+  };
+}
+
+function getFieldTexts(
+  repository: StarredRepository
+): Record<FieldName, string> {
+  const readme = preprocessReadme(repository.readme ?? "");
+  return {
+    owner: repository.owner,
+    name: repository.name,
+    description: repository.description ?? "",
+    readme: readme.body,
+    readmeHeadings: readme.headings,
+    readmeIntro: readme.intro,
+  };
+}
+
+function containsSequence(tokens: string[], sequence: string[]): boolean {
+  if (sequence.length === 0 || sequence.length > tokens.length) {
+    return false;
+  }
+  for (let start = 0; start <= tokens.length - sequence.length; start++) {
+    let isMatch = true;
+    for (let offset = 0; offset < sequence.length; offset++) {
+      if (tokens[start + offset] !== sequence[offset]) {
+        isMatch = false;
+        break;
+      }
+    }
+    if (isMatch) {
+      return true;
     }
   }
-  return uniqueTokens(limit ? collected.slice(0, limit) : collected);
+  return false;
+}
+
+function accumulateScores(
+  clauseMatches: Map<string, ClauseMatch>,
+  scores: Map<string, number>,
+  matches: Map<string, Set<string>>
+) {
+  for (const [id, { score, tokens }] of clauseMatches.entries()) {
+    scores.set(id, (scores.get(id) ?? 0) + score);
+    const matched = matches.get(id) ?? new Set<string>();
+    for (const token of tokens) {
+      matched.add(token);
+    }
+    matches.set(id, matched);
+  }
+}
+
+function getResultLimit(options?: SearchOptions): number {
+  return Math.max(options?.limit ?? DEFAULT_SEARCH_LIMIT, MIN_SEARCH_RESULTS);
+}
+
+function getResultOffset(options?: SearchOptions): number {
+  return Math.max(Math.floor(options?.offset ?? 0), 0);
+}
+
+function isSameConfig(left: EngineConfig, right: EngineConfig): boolean {
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+function hasSameIndexedText(
+  left: StarredRepository,
+  right: StarredRepository
+): boolean {
+  return (
+    left.owner === right.owner &&
+    left.name === right.name &&
+    left.description === right.description &&
+    left.readme === right.readme
+  );
 }
 
 export class RepositorySearchEngine {
   private readonly config: EngineConfig;
+  private readonly analyzer: Analyzer;
   private readonly documents = new Map<string, RepositoryDocument>();
-  private readonly invertedIndex = new Map<string, Set<string>>();
-  private readonly documentFrequency = new Map<string, number>();
+  // Documents by doc id. Slots of removed documents are handed out again.
+  private readonly slots: (RepositoryDocument | undefined)[] = [];
+  private readonly freeSlots: number[] = [];
+  private dictionary = new TermDictionary();
+  // Impacts depend on the average field lengths, so the posting lists are
+  // rebuilt on every consolidation rather than patched on each change.
+  private postings: PostingLists = EMPTY_POSTING_LISTS;
+  // IDF depends on the corpus size, so it is cached per term and dropped on
+  // every mutation instead of being recomputed for the whole vocabulary.
   private readonly inverseDocumentFrequency = new Map<string, number>();
-  private totalCorpusLength = 0;
-  private averageDocumentLength = 0;
+  private maxPriorBoost: number | null = null;
+  private readonly totalFieldLength = createFieldTotals();
+  private readonly averageFieldLength = createFieldTotals();
+  // Built on the first fuzzy lookup and dropped whenever the vocabulary
+  // changes.
+  private fuzzyVocabulary: FuzzyVocabulary | null = null;
+  // Like counts keyed by lower-cased id. Not serialized: they belong to the
+  // session, not to the index.
+  private likeCounts = new Map<string, number>();
+  // Term vectors are weighted by IDF, so both caches are dropped whenever the
+  // corpus is consolidated.
+  private readonly termVectors = new Map<string, TermVector>();
+  private likedVectors: { id: string; vector: TermVector }[] | null = null;
+  private isStale = false;
 
-  constructor(overrides?: Partial<EngineConfig>) {
+  constructor(
+    overrides?: EngineConfigOverrides,
+    analyzer: Analyzer = defaultAnalyzer
+  ) {
     this.config = composeConfig(overrides);
+    this.analyzer = analyzer;
+  }
+
+  /**
+   * Rebuilds an engine from `serialize()` output without tokenizing anything.
+   * Returns null when the snapshot was written by another index version,
+   * analyzer or config, in which case the caller should re-index.
+   */
+  static deserialize(
+    snapshot: SerializedSearchIndex,
+    overrides?: EngineConfigOverrides,
+    analyzer?: Analyzer
+  ): RepositorySearchEngine | null {
+    const engine = new RepositorySearchEngine(overrides, analyzer);
+    if (snapshot.version !== SEARCH_INDEX_VERSION) {
+      return null;
+    }
+    if (snapshot.analyzer !== engine.analyzer.id) {
+      return null;
+    }
+    if (!isSameConfig(snapshot.config, engine.config)) {
+      return null;
+    }
+
+    // The dictionary is empty, so interning hands out the snapshot's ids.
+    for (const term of snapshot.terms) {
+      engine.dictionary.intern(term);
+    }
+    for (const { id, repository, lengths, ...terms } of snapshot.documents) {
+      engine.insertDocument(id, repository, lengths, terms);
+    }
+
+    engine.consolidate();
+    return engine;
   }
 
   get size(): number {
     return this.documents.size;
   }
 
+  has(id: string): boolean {
+    return this.documents.has(id);
+  }
+
+  get(id: string): StarredRepository | undefined {
+    return this.documents.get(id)?.repository;
+  }
+
+  ids(): string[] {
+    return Array.from(this.documents.keys());
+  }
+
   reset(): void {
     this.documents.clear();
-    this.invertedIndex.clear();
-    this.documentFrequency.clear();
+    this.slots.length = 0;
+    this.freeSlots.length = 0;
+    this.dictionary = new TermDictionary();
+    this.postings = EMPTY_POSTING_LISTS;
     this.inverseDocumentFrequency.clear();
-    this.totalCorpusLength = 0;
-    this.averageDocumentLength = 0;
+    this.maxPriorBoost = null;
+    this.fuzzyVocabulary = null;
+    this.termVectors.clear();
+    this.likedVectors = null;
+    for (const field of FIELD_NAMES) {
+      this.totalFieldLength[field] = 0;
+      this.averageFieldLength[field] = 0;
+    }
+    this.isStale = false;
   }
 
   add(repository: StarredRepository): void {
@@ -142,230 +640,1194 @@ export class RepositorySearchEngine {
       return;
     }
 
-    const doc: RepositoryDocument = {
+    const texts = getFieldTexts(repository);
+    const lengths = new Uint32Array(FIELD_NAMES.length);
+    const countsByField = FIELD_NAMES.map((field, index) => {
+      const counts = new Map<number, number>();
+      lengths[index] = this.analyzeField(field, texts[field], counts);
+      return counts;
+    });
+
+    this.insertDocument(
       id,
       repository,
-      termFrequency: new Map(),
-      length: 0,
-    };
+      lengths,
+      createDocumentTerms(countsByField)
+    );
+    this.isStale = true;
+  }
+
+  remove(id: string): boolean {
+    const doc = this.documents.get(id);
+    if (!doc) {
+      return false;
+    }
+
+    for (const termId of uniqueTermIds(doc.terms)) {
+      if (this.dictionary.adjustFrequency(termId, -1) === 0) {
+        this.fuzzyVocabulary = null;
+      }
+    }
+
+    for (const [index, field] of FIELD_NAMES.entries()) {
+      this.totalFieldLength[field] -= doc.lengths[index] ?? 0;
+    }
+    this.documents.delete(id);
+    this.slots[doc.docId] = undefined;
+    this.freeSlots.push(doc.docId);
+    this.isStale = true;
+    return true;
+  }
+
+  /**
+   * Adds or re-indexes a repository. Returns true when the index changed.
+   */
+  update(repository: StarredRepository): boolean {
+    const id = buildRepositoryId(repository);
+    const existing = this.documents.get(id);
+    if (!existing) {
+      this.add(repository);
+      return true;
+    }
+
+    // Metadata such as star counts does not affect the index, so only swap the
+    // stored repository unless one of the tokenized fields changed.
+    if (hasSameIndexedText(existing.repository, repository)) {
+      existing.repository = repository;
+      // Star counts bound the prior boost top-k pruning relies on.
+      this.maxPriorBoost = null;
+      return false;
+    }
 
-    const { fieldWeights, maxReadmeTokens } = this.config;
-    this.ingestText(doc, repository.owner, fieldWeights.owner);
-    this.ingestText(doc, repository.name, fieldWeights.name);
-    this.ingestField(
-      doc,
-      repository.description ?? "",
-      fieldWeights.description
+    this.remove(id);
+    this.add(repository);
+    return true;
+  }
+
+  consolidate(): void {
+    for (const field of FIELD_NAMES) {
+      this.averageFieldLength[field] =
+        this.documents.size > 0
+          ? this.totalFieldLength[field] / this.documents.size
+          : 0;
+    }
+    this.inverseDocumentFrequency.clear();
+    this.postings = buildPostingLists(
+      this.slots.map((doc) => doc?.terms),
+      this.dictionary.size,
+      (docId, start, end) => this.computeImpact(docId, start, end)
     );
-    this.ingestField(
-      doc,
-      repository.readme ?? "",
-      fieldWeights.readme,
-      maxReadmeTokens
+    this.maxPriorBoost = null;
+    this.termVectors.clear();
+    this.likedVectors = null;
+    this.isStale = false;
+  }
+
+  /**
+   * Replaces the like history used for personal boosts. Pass one id per like;
+   * ids liked repeatedly count once per like.
+   */
+  setLikedRepositories(ids: Iterable<string>): void {
+    this.likeCounts = countLikes(ids);
+    this.likedVectors = null;
+    this.maxPriorBoost = null;
+  }
+
+  serialize(): SerializedSearchIndex {
+    // Only live terms are written, renumbered in their current order so each
+    // document's entries stay sorted by term id.
+    const terms: string[] = [];
+    const renumbered = new Uint32Array(this.dictionary.size);
+    for (let termId = 0; termId < this.dictionary.size; termId++) {
+      if (this.dictionary.documentFrequency(termId) > 0) {
+        renumbered[termId] = terms.length;
+        terms.push(this.dictionary.term(termId));
+      }
+    }
+
+    const documents = Array.from(
+      this.documents.values(),
+      (doc): SerializedDocument => ({
+        id: doc.id,
+        repository: doc.repository,
+        lengths: doc.lengths,
+        termIds: doc.terms.termIds.map((termId) => renumbered[termId] ?? 0),
+        fields: doc.terms.fields,
+        counts: doc.terms.counts,
+      })
     );
 
-    this.totalCorpusLength += doc.length;
-    this.documents.set(id, doc);
+    return {
+      version: SEARCH_INDEX_VERSION,
+      analyzer: this.analyzer.id,
+      config: this.config,
+      terms,
+      documents,
+    };
   }
 
-  consolidate(): void {
+  search(
+    keywords: string[],
+    options?: SearchOptions
+  ): RepositorySearchResult[] {
     if (this.documents.size === 0) {
-      return;
+      return [];
     }
-    this.averageDocumentLength =
-      this.totalCorpusLength / Math.max(this.documents.size, 1);
+    this.ensureConsolidated();
 
-    this.documentFrequency.clear();
-    for (const [token, docIds] of this.invertedIndex.entries()) {
-      this.documentFrequency.set(token, docIds.size);
+    const tokens = this.analyzeKeywords(keywords);
+    if (tokens.length === 0) {
+      return [];
     }
 
-    this.inverseDocumentFrequency.clear();
-    const { k } = this.config;
-    for (const [token, frequency] of this.documentFrequency.entries()) {
-      const idf = Math.log(
-        (this.documents.size - frequency + BM25_IDF_SMOOTHING) /
-          (frequency + BM25_IDF_SMOOTHING) +
-          k
+    const sort = options?.sort ?? "relevance";
+    if (this.config.topKPruning && sort === "relevance") {
+      const topK = this.searchTopK(this.expandTokens(tokens), options);
+      return this.toResults(
+        topK.ranked.slice(getResultOffset(options)),
+        topK.matches
       );
-      this.inverseDocumentFrequency.set(token, idf);
     }
+    const { scores, matches } = this.scoreTokens(tokens);
+    return this.rank(scores, matches, options);
+  }
 
-    for (const doc of this.documents.values()) {
-      const normalized = this.normalizeDocumentFrequencies(doc);
-      doc.termFrequency.clear();
-      for (const [token, score] of normalized.entries()) {
-        doc.termFrequency.set(token, score);
-      }
+  /**
+   * Explains where repository `id` stands for `search(keywords, options)`:
+   * which of its fields were indexed, which keywords reached it, its rank
+   * among all matches and how much score it lacks to make the cut. Ids are
+   * matched case-insensitively, as on GitHub.
+   */
+  diagnose(
+    id: string,
+    keywords: string[],
+    options?: SearchOptions
+  ): RepositoryDiagnosis {
+    const limit = getResultLimit(options);
+    const doc = this.findDocument(id);
+    if (!doc) {
+      return {
+        id,
+        isIndexed: false,
+        isFilteredOut: false,
+        hasDescription: false,
+        hasReadme: false,
+        fieldLengths: createFieldTotals(),
+        keywords: keywords.map((keyword) => ({ keyword, matchedTokens: [] })),
+        score: 0,
+        rank: null,
+        matchCount: 0,
+        limit,
+        isInTopResults: false,
+        cutoffScore: 0,
+        scoreGap: 0,
+      };
+    }
+    this.ensureConsolidated();
+
+    const { scores } = this.scoreTokens(this.analyzeKeywords(keywords));
+    const now = options?.now ?? Date.now();
+    const ranked = this.orderResults(scores, options, now);
+    const position = ranked.findIndex((entry) => entry.id === doc.id);
+    const textScore = scores.get(doc.id) ?? 0;
+    const score =
+      textScore > 0
+        ? this.scoreWithPriors(doc, textScore, now, this.getPersonalMatch(doc))
+        : 0;
+    const cutoffScore =
+      ranked.length >= limit ? (ranked[limit - 1]?.score ?? 0) : 0;
+    const isInTopResults = position >= 0 && position < limit;
+    const isRankedByScore = (options?.sort ?? "relevance") === "relevance";
+
+    const fieldLengths = createFieldTotals();
+    for (const [index, field] of FIELD_NAMES.entries()) {
+      fieldLengths[field] = doc.lengths[index] ?? 0;
     }
+
+    return {
+      id: doc.id,
+      isIndexed: true,
+      isFilteredOut: !matchesSearchFilters(doc.repository, options?.filters),
+      hasDescription: Boolean(doc.repository.description),
+      hasReadme: Boolean(doc.repository.readme),
+      fieldLengths,
+      keywords: keywords.map((keyword) => ({
+        keyword,
+        matchedTokens: this.findMatchedTokens(doc, keyword),
+      })),
+      score,
+      rank: position >= 0 ? position + 1 : null,
+      matchCount: ranked.length,
+      limit,
+      isInTopResults,
+      cutoffScore,
+      scoreGap:
+        isInTopResults || !isRankedByScore
+          ? 0
+          : Math.max(0, cutoffScore - score),
+    };
   }
 
-  search(
+  /**
+   * Breaks the score `search(keywords)` gives repository `id` down into its
+   * terms and, per term, the BM25F inputs of every field it occurs in. Terms
+   * the repository lacks are listed with a score of 0. Term scores come from
+   * the same stored impacts as search, and priors from `now`, so pass the
+   * `now` the search used for the total to match. Returns null for unknown
+   * ids.
+   */
+  explain(
+    id: string,
     keywords: string[],
+    now: number = Date.now()
+  ): ScoreExplanation | null {
+    const doc = this.documents.get(id);
+    if (!doc) {
+      return null;
+    }
+    this.ensureConsolidated();
+
+    const terms: TermScoreExplanation[] = [];
+    const tokens = this.analyzeKeywords(keywords);
+    for (const token of tokens) {
+      for (const term of this.expandToken(token)) {
+        terms.push(this.explainTerm(doc, token.text, term));
+      }
+    }
+
+    const textScore = terms.reduce((sum, term) => sum + term.score, 0);
+    const personalMatch = this.getPersonalMatch(doc);
+    const priors = computePriors(
+      doc.repository,
+      this.config.priors,
+      now,
+      personalMatch
+    );
+    return {
+      id,
+      score:
+        textScore > 0
+          ? applyPriors(textScore, priors, this.config.priors.mode)
+          : 0,
+      textScore,
+      priors,
+      personalMatch,
+      terms,
+    };
+  }
+
+  /**
+   * Finds the repositories closest to repository `id`, Rocchio-style: its
+   * highest TF-IDF terms become a weighted query, scored like any other
+   * search, and the repository itself is left out. Terms no other
+   * repository has are skipped since they cannot match anything.
+   */
+  similar(id: string, limit?: number): RepositorySearchResult[] {
+    const doc = this.findDocument(id);
+    if (!doc) {
+      return [];
+    }
+    this.ensureConsolidated();
+
+    const scores = new Map<string, number>();
+    const matches = new Map<string, Set<string>>();
+    for (const term of this.buildSimilarityQuery(doc)) {
+      this.updateScoresForTerm(term, scores, matches);
+    }
+    scores.delete(doc.id);
+    return this.rank(scores, matches, { limit });
+  }
+
+  /**
+   * Groups every repository into topics by clustering the same term vectors
+   * that personal boosts compare.
+   */
+  cluster(options?: ClusterOptions): RepositoryClustering {
+    this.ensureConsolidated();
+    return clusterVectors(
+      Array.from(this.documents.values(), (doc) => ({
+        id: doc.id,
+        vector: this.getTermVector(doc),
+      })),
+      options
+    );
+  }
+
+  /**
+   * Finds groups of starred repositories that look like alternatives to one
+   * another, from the same term vectors plus shared GitHub topics.
+   */
+  alternatives(options?: AlternativeOptions): AlternativeGroup[] {
+    this.ensureConsolidated();
+    return findAlternativeGroups(
+      Array.from(this.documents.values(), (doc) => ({
+        id: doc.id,
+        vector: this.getTermVector(doc),
+        topics: doc.repository.topics ?? [],
+        stargazerCount: doc.repository.stargazerCount,
+      })),
+      options
+    );
+  }
+
+  /**
+   * Evaluates the query syntax described in `parseSearchQuery`. Each clause
+   * matches a repository only when all of its tokens occur in the scoped
+   * fields, and phrases additionally require the tokens to be consecutive.
+   */
+  searchQuery(
+    query: string | ParsedQuery,
     options?: SearchOptions
   ): RepositorySearchResult[] {
     if (this.documents.size === 0) {
       return [];
     }
+    this.ensureConsolidated();
 
-    const normalizedKeywords = normalizeKeywords(
-      keywords,
-      this.config.maxKeywords
-    );
-    if (normalizedKeywords.length === 0) {
+    const { clauses } =
+      typeof query === "string" ? parseSearchQuery(query) : query;
+    const scores = new Map<string, number>();
+    const matches = new Map<string, Set<string>>();
+    const excluded = new Set<string>();
+    const required: Set<string>[] = [];
+
+    for (const clause of clauses) {
+      const clauseMatches = this.evaluateClause(clause);
+      if (clause.occur === "mustNot") {
+        for (const id of clauseMatches.keys()) {
+          excluded.add(id);
+        }
+        continue;
+      }
+      if (clause.occur === "must") {
+        required.push(new Set(clauseMatches.keys()));
+      }
+      accumulateScores(clauseMatches, scores, matches);
+    }
+
+    // Exclusions only narrow other clauses; a query of nothing but `-term`
+    // matches nothing.
+    if (clauses.every((clause) => clause.occur === "mustNot")) {
       return [];
     }
+    for (const id of Array.from(scores.keys())) {
+      if (excluded.has(id) || required.some((docIds) => !docIds.has(id))) {
+        scores.delete(id);
+      }
+    }
+
+    return this.rank(scores, matches, options);
+  }
+
+  private expandTokens(tokens: Token[]): QueryTerm[] {
+    return tokens.flatMap((token) => this.expandToken(token));
+  }
 
+  private scoreTokens(tokens: Token[]) {
     const scores = new Map<string, number>();
     const matches = new Map<string, Set<string>>();
+    for (const term of this.expandTokens(tokens)) {
+      this.updateScoresForTerm(term, scores, matches);
+    }
+    return { scores, matches };
+  }
 
-    for (const keyword of normalizedKeywords) {
-      this.updateScoresForKeyword(keyword, scores, matches);
+  /**
+   * Top-k retrieval with MaxScore pruning. Terms are visited from the highest
+   * score upper bound down, and each repository is scored in full the first
+   * time one of its terms comes up. Once the terms left cannot lift an unseen
+   * repository past the worst of the top `offset + limit`, no more are taken
+   * on, and a candidate is dropped as soon as its own bound falls short. The
+   * results match scoring every repository.
+   */
+  private searchTopK(terms: QueryTerm[], options?: SearchOptions) {
+    const bounded = terms
+      .flatMap((term) => this.boundTerm(term))
+      .sort((a, b) => b.upperBound - a.upperBound);
+    const remainingBounds = new Array<number>(bounded.length + 1).fill(0);
+    for (let index = bounded.length - 1; index >= 0; index--) {
+      remainingBounds[index] =
+        (remainingBounds[index + 1] ?? 0) + (bounded[index]?.upperBound ?? 0);
     }
 
-    const limit = Math.max(options?.limit ?? 10, MIN_SEARCH_RESULTS);
-    const ranked = Array.from(scores.entries())
-      .map(([id, score]) => ({
-        id,
-        score,
-      }))
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit);
+    const context: TopKContext = {
+      terms: bounded,
+      remainingBounds,
+      heap: new TopKHeap<RankedDocument>(
+        getResultOffset(options) + getResultLimit(options),
+        compareBySort("relevance")
+      ),
+      matches: new Map(),
+      filters: options?.filters,
+      now: options?.now ?? Date.now(),
+    };
+    const seen = new Uint8Array(this.slots.length);
+    for (const [index, term] of bounded.entries()) {
+      if (!this.canReachTopK(remainingBounds[index] ?? 0, context.heap)) {
+        break;
+      }
+      for (const docId of this.getPostingDocIds(term.termId)) {
+        if (!seen[docId]) {
+          seen[docId] = 1;
+          this.offerCandidate(docId, index, context);
+        }
+      }
+    }
+    return { ranked: context.heap.toSortedArray(), matches: context.matches };
+  }
+
+  private boundTerm(term: QueryTerm): BoundedQueryTerm[] {
+    const termId = this.dictionary.lookup(term.token);
+    if (termId === undefined) {
+      return [];
+    }
+    const idf = this.getInverseDocumentFrequency(term.token);
+    const maxImpact = this.postings.maxImpacts[termId] ?? 0;
+    return [
+      { ...term, termId, idf, upperBound: term.weight * idf * maxImpact },
+    ];
+  }
+
+  /**
+   * Scores document `docId`, first seen in the postings of term `start`, and
+   * keeps it if it makes the top results. Terms before `start` have higher
+   * bounds and were all visited already, so it cannot contain them.
+   */
+  private offerCandidate(docId: number, start: number, context: TopKContext) {
+    const doc = this.slots[docId];
+    if (!doc) {
+      throw new Error("Invariant violated: missing repository document");
+    }
+    if (!matchesSearchFilters(doc.repository, context.filters)) {
+      return;
+    }
+
+    const { terms, remainingBounds, heap } = context;
+    const tokens = new Set<string>();
+    let textScore = 0;
+    for (let index = start; index < terms.length; index++) {
+      const term = terms[index];
+      const position = term
+        ? findPosting(this.postings, term.termId, docId)
+        : -1;
+      if (term && position >= 0) {
+        textScore +=
+          term.weight * term.idf * (this.postings.impacts[position] ?? 0);
+        tokens.add(term.token);
+      }
+      const bound = textScore + (remainingBounds[index + 1] ?? 0);
+      if (!this.canReachTopK(bound, heap)) {
+        return;
+      }
+    }
+
+    const personalMatch = this.getPersonalMatch(doc);
+    const isKept = heap.push({
+      id: doc.id,
+      repository: doc.repository,
+      score: this.scoreWithPriors(doc, textScore, context.now, personalMatch),
+      personalMatch,
+    });
+    if (isKept) {
+      context.matches.set(doc.id, tokens);
+    }
+  }
+
+  /**
+   * Whether a repository whose text score is at most `textBound` could still
+   * make the top results, given the largest boost priors can add.
+   */
+  private canReachTopK(
+    textBound: number,
+    heap: TopKHeap<RankedDocument>
+  ): boolean {
+    const worst = heap.worst();
+    if (!(heap.isFull && worst)) {
+      return true;
+    }
+    const boost = this.getMaxPriorBoost();
+    let bound = textBound;
+    if (this.config.priors.mode === "multiply") {
+      bound = textBound * (1 + boost);
+    } else if (this.config.priors.mode === "add") {
+      bound = textBound + boost;
+    }
+    return bound + Math.abs(bound) * PRUNING_TOLERANCE >= worst.score;
+  }
 
-    const results: RepositorySearchResult[] = ranked.map(({ id, score }) => {
+  /**
+   * Upper bound of the boost priors give any repository: the most stars, a
+   * repository starred just now and the larger personal boost. Penalties
+   * only lower scores, so they are left out.
+   */
+  private getMaxPriorBoost(): number {
+    if (this.maxPriorBoost === null) {
+      const { starWeight, starredAtWeight, likedWeight, similarWeight } =
+        this.config.priors;
+      let maxStars = 0;
+      for (const doc of this.documents.values()) {
+        maxStars = Math.max(maxStars, doc.repository.stargazerCount);
+      }
+      const personalBoost =
+        this.likeCounts.size > 0 ? Math.max(0, likedWeight, similarWeight) : 0;
+      this.maxPriorBoost =
+        Math.max(0, starWeight * Math.log10(1 + maxStars)) +
+        Math.max(0, starredAtWeight) +
+        personalBoost;
+    }
+    return this.maxPriorBoost;
+  }
+
+  private findDocument(id: string): RepositoryDocument | undefined {
+    const exact = this.documents.get(id);
+    if (exact) {
+      return exact;
+    }
+    const lowerCaseId = id.toLowerCase();
+    for (const doc of this.documents.values()) {
+      if (doc.id.toLowerCase() === lowerCaseId) {
+        return doc;
+      }
+    }
+    return;
+  }
+
+  private findMatchedTokens(doc: RepositoryDocument, keyword: string) {
+    const matched = new Set<string>();
+    const tokens = this.analyzeKeywords([keyword]);
+    for (const token of tokens) {
+      for (const { token: term } of this.expandToken(token)) {
+        const [start, end] = this.getTermEntries(doc, term);
+        if (end > start) {
+          matched.add(term);
+        }
+      }
+    }
+    return Array.from(matched);
+  }
+
+  private ensureConsolidated() {
+    if (this.isStale) {
+      this.consolidate();
+    }
+  }
+
+  private rank(
+    scores: Map<string, number>,
+    matches: Map<string, Set<string>>,
+    options?: SearchOptions
+  ): RepositorySearchResult[] {
+    const offset = getResultOffset(options);
+    const ranked = this.orderResults(scores, options).slice(
+      offset,
+      offset + getResultLimit(options)
+    );
+    return this.toResults(ranked, matches);
+  }
+
+  private toResults(
+    ranked: RankedDocument[],
+    matches: Map<string, Set<string>>
+  ): RepositorySearchResult[] {
+    const results: RepositorySearchResult[] = ranked.map(
+      ({ id, repository, score, personalMatch }) => {
+        const matchedTokens = matches.get(id) ?? new Set<string>();
+        return {
+          id,
+          repository,
+          score,
+          matchedTokens: Array.from(matchedTokens),
+          snippets: buildSnippets(
+            preprocessReadme(repository.readme ?? "").body,
+            matchedTokens,
+            this.analyzer,
+            SNIPPET_OPTIONS
+          ),
+          personalMatch,
+        };
+      }
+    );
+
+    return results;
+  }
+
+  /**
+   * Drops scored repositories outside the filters, blends the priors into the
+   * text scores of the rest and orders them by the requested sort mode.
+   */
+  private orderResults(
+    scores: Map<string, number>,
+    options?: SearchOptions,
+    now: number = options?.now ?? Date.now()
+  ): RankedDocument[] {
+    const ranked: RankedDocument[] = [];
+    for (const [id, textScore] of scores.entries()) {
       const doc = this.documents.get(id);
       if (!doc) {
         throw new Error("Invariant violated: missing repository document");
       }
-      return {
-        id,
-        repository: doc.repository,
-        score,
-        matchedTokens: Array.from(matches.get(id) ?? new Set<string>()),
-      };
-    });
+      if (matchesSearchFilters(doc.repository, options?.filters)) {
+        const personalMatch = this.getPersonalMatch(doc);
+        ranked.push({
+          id,
+          repository: doc.repository,
+          score: this.scoreWithPriors(doc, textScore, now, personalMatch),
+          personalMatch,
+        });
+      }
+    }
+    return ranked.sort(compareBySort(options?.sort));
+  }
 
-    return results;
+  private scoreWithPriors(
+    doc: RepositoryDocument,
+    textScore: number,
+    now: number,
+    personalMatch: PersonalMatch | null
+  ): number {
+    const { priors } = this.config;
+    return applyPriors(
+      textScore,
+      computePriors(doc.repository, priors, now, personalMatch),
+      priors.mode
+    );
   }
 
-  private updateScoresForKeyword(
-    keyword: string,
+  /**
+   * A repository liked before matches as such; otherwise the most similar
+   * liked repository counts when it reaches `minSimilarity`.
+   */
+  private getPersonalMatch(doc: RepositoryDocument): PersonalMatch | null {
+    const { mode, similarWeight, minSimilarity } = this.config.priors;
+    if (mode === "none" || this.likeCounts.size === 0) {
+      return null;
+    }
+    const likeCount = this.likeCounts.get(doc.id.toLowerCase());
+    if (likeCount) {
+      return { kind: "liked", likeCount };
+    }
+    if (similarWeight <= 0) {
+      return null;
+    }
+
+    const vector = this.getTermVector(doc);
+    let best: PersonalMatch | null = null;
+    for (const liked of this.getLikedVectors()) {
+      const similarity = cosineSimilarity(vector, liked.vector);
+      if (
+        similarity >= minSimilarity &&
+        (!best || (best.kind === "similar" && similarity > best.similarity))
+      ) {
+        best = { kind: "similar", likedId: liked.id, similarity };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * The document's top terms by length-normalized, field-weighted TF-IDF,
+   * weighted relative to the strongest one.
+   */
+  private buildSimilarityQuery(doc: RepositoryDocument): QueryTerm[] {
+    const weights = new Map<string, number>();
+    for (const [entry, termId] of doc.terms.termIds.entries()) {
+      if (this.dictionary.documentFrequency(termId) <= 1) {
+        continue;
+      }
+      const token = this.dictionary.term(termId);
+      const weight = this.getWeightedFrequency(doc, entry);
+      weights.set(token, (weights.get(token) ?? 0) + weight);
+    }
+
+    const ranked = Array.from(weights.entries())
+      .map(([token, frequency]) => ({
+        token,
+        weight: frequency * this.getInverseDocumentFrequency(token),
+      }))
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, SIMILAR_QUERY_TERM_LIMIT);
+    const maxWeight = ranked[0]?.weight ?? 0;
+    return ranked.map(({ token, weight }) => ({
+      token,
+      weight: maxWeight > 0 ? weight / maxWeight : 0,
+      match: "exact" as const,
+    }));
+  }
+
+  private getLikedVectors() {
+    if (!this.likedVectors) {
+      this.likedVectors = [];
+      for (const doc of this.documents.values()) {
+        if (this.likeCounts.has(doc.id.toLowerCase())) {
+          this.likedVectors.push({
+            id: doc.id,
+            vector: this.getTermVector(doc),
+          });
+        }
+      }
+    }
+    return this.likedVectors;
+  }
+
+  /**
+   * TF-IDF vector over the short descriptive fields, weighted like the
+   * fields are for search.
+   */
+  private getTermVector(doc: RepositoryDocument): TermVector {
+    const cached = this.termVectors.get(doc.id);
+    if (cached) {
+      return cached;
+    }
+    const vector: TermVector = new Map();
+    for (const [entry, termId] of doc.terms.termIds.entries()) {
+      const field = this.getEntryField(doc, entry);
+      if (!SIMILARITY_FIELDS.includes(field)) {
+        continue;
+      }
+      const token = this.dictionary.term(termId);
+      const weight =
+        this.config.fieldWeights[field] * (doc.terms.counts[entry] ?? 0);
+      vector.set(token, (vector.get(token) ?? 0) + weight);
+    }
+    for (const [token, weight] of vector) {
+      vector.set(token, weight * this.getInverseDocumentFrequency(token));
+    }
+    const normalized = normalizeVector(vector);
+    this.termVectors.set(doc.id, normalized);
+    return normalized;
+  }
+
+  private updateScoresForTerm(
+    { token, weight }: QueryTerm,
     scores: Map<string, number>,
     matches: Map<string, Set<string>>
   ): void {
-    const docIds = this.invertedIndex.get(keyword);
-    if (!docIds) {
+    const termId = this.dictionary.lookup(token);
+    if (termId === undefined) {
       return;
     }
 
-    for (const id of docIds) {
-      const doc = this.documents.get(id);
+    const idf = this.getInverseDocumentFrequency(token);
+    const { offsets, docIds, impacts } = this.postings;
+    const end = offsets[termId + 1] ?? 0;
+    for (let position = offsets[termId] ?? 0; position < end; position++) {
+      const doc = this.slots[docIds[position] ?? 0];
       if (!doc) {
         continue;
       }
-      const termScore = doc.termFrequency.get(keyword) ?? 0;
-      scores.set(id, (scores.get(id) ?? 0) + termScore);
-      if (!matches.has(id)) {
-        matches.set(id, new Set());
+      const termScore = weight * idf * (impacts[position] ?? 0);
+      scores.set(doc.id, (scores.get(doc.id) ?? 0) + termScore);
+      if (!matches.has(doc.id)) {
+        matches.set(doc.id, new Set());
       }
-      matches.get(id)?.add(keyword);
+      matches.get(doc.id)?.add(token);
     }
   }
 
-  private ingestText(
-    doc: RepositoryDocument,
-    rawValue: string,
-    weight: number
-  ) {
-    if (!rawValue) {
-      return;
+  private getInverseDocumentFrequency(token: string): number {
+    const cached = this.inverseDocumentFrequency.get(token);
+    if (typeof cached === "number") {
+      return cached;
     }
-    if (weight <= 0) {
-      return;
+
+    const frequency = this.getDocumentFrequency(token);
+    const idf = Math.log(
+      (this.documents.size - frequency + BM25_IDF_SMOOTHING) /
+        (frequency + BM25_IDF_SMOOTHING) +
+        this.config.k
+    );
+    this.inverseDocumentFrequency.set(token, idf);
+    return idf;
+  }
+
+  /**
+   * Analyzes query keywords like `normalizeKeywords`, then bridges the agent
+   * nouns Porter leaves alone: an inflected word such as `parsing` also
+   * matches `parser`, and `parser` matches `pars` when the vocabulary has
+   * seen that stem inflected. `number` has no inflected `numb`, so the two
+   * stay apart.
+   */
+  private analyzeKeywords(keywords: string[]): Token[] {
+    const tokens = normalizeKeywords(
+      keywords,
+      this.config.maxKeywords,
+      this.analyzer
+    );
+    return this.addAgentNounTokens(tokens);
+  }
+
+  private addAgentNounTokens(tokens: Token[]): Token[] {
+    const output = [...tokens];
+    const seen = new Set(tokens.map((token) => token.text));
+    const add = (text: string) => {
+      if (!seen.has(text)) {
+        seen.add(text);
+        output.push({ text, isDerived: true });
+      }
+    };
+    for (const token of tokens) {
+      if (token.isDerived) {
+        continue;
+      }
+      const porterStem = stemEnglish(token.text);
+      if (porterStem !== token.text) {
+        add(agentNounOf(porterStem));
+      }
+      add(stemEnglish(token.text, (stem) => this.isInflectedStem(stem)));
     }
+    return output;
+  }
 
-    const tokens = tokenize(rawValue);
-    if (tokens.length === 0) {
-      return;
+  private isInflectedStem(stem: string): boolean {
+    if (this.dictionary.lookup(stem) === undefined) {
+      return false;
     }
+    return INFLECTION_SUFFIXES.some((suffix) => {
+      const word = `${stem}${suffix}`;
+      return (
+        this.dictionary.lookup(word) !== undefined && stemEnglish(word) === stem
+      );
+    });
+  }
 
-    const docTokens = new Set<string>();
-    for (const token of tokens) {
-      const weighted = doc.termFrequency.get(token) ?? 0;
-      doc.termFrequency.set(token, weighted + weight);
-      docTokens.add(token);
+  /**
+   * Resolves a query token to the index terms it scores against. Base tokens
+   * missing from the vocabulary fall back to their closest fuzzy matches,
+   * discounted by `fuzzyPenalty` per edit.
+   */
+  private expandToken(token: Token): QueryTerm[] {
+    if (this.dictionary.lookup(token.text) !== undefined) {
+      return [
+        {
+          token: token.text,
+          weight: this.getTokenWeight(token),
+          match: token.isDerived ? "derived" : "exact",
+        },
+      ];
+    }
+    const maxDistance = getMaxEditDistance(token.text);
+    if (token.isDerived || maxDistance === 0) {
+      return [];
+    }
+
+    const { fuzzyPenalty, maxFuzzyExpansions } = this.config;
+    return this.getFuzzyVocabulary()
+      .candidates(token.text, maxDistance)
+      .sort(
+        (a, b) =>
+          a.distance - b.distance ||
+          this.getDocumentFrequency(b.term) - this.getDocumentFrequency(a.term)
+      )
+      .slice(0, maxFuzzyExpansions)
+      .map(({ term, distance }) => ({
+        token: term,
+        weight: fuzzyPenalty ** distance,
+        match: "fuzzy" as const,
+      }));
+  }
+
+  private getFuzzyVocabulary(): FuzzyVocabulary {
+    if (!this.fuzzyVocabulary) {
+      this.fuzzyVocabulary = new FuzzyVocabulary(this.dictionary.liveTerms());
+    }
+    return this.fuzzyVocabulary;
+  }
+
+  private evaluateClause(clause: QueryClause): Map<string, ClauseMatch> {
+    const clauseMatches = new Map<string, ClauseMatch>();
+    const clauseTokens = this.analyzer.tokenize(clause.text);
+    // Each word matches through itself, any token derived from it such as its
+    // stem, or fuzzy matches when it is not in the vocabulary.
+    const groups = uniqueTokens(clauseTokens).map((token) =>
+      this.addAgentNounTokens(this.analyzer.analyze(token)).flatMap((part) =>
+        this.expandToken(part)
+      )
+    );
+    const candidates = this.intersectPostings(groups);
+    const fields = clause.field
+      ? QUERY_FIELD_TARGETS[clause.field]
+      : FIELD_NAMES;
+    const phrase = clause.isPhrase ? clauseTokens : null;
+
+    for (const doc of candidates) {
+      if (phrase && !this.containsPhrase(doc, fields, phrase)) {
+        continue;
+      }
+      const tokens = new Set<string>();
+      const score = this.scoreAllGroups(doc, groups, fields, tokens);
+      if (score > 0) {
+        clauseMatches.set(doc.id, { score, tokens });
+      }
+    }
+
+    return clauseMatches;
+  }
+
+  private intersectPostings(groups: QueryTerm[][]): RepositoryDocument[] {
+    if (groups.length === 0) {
+      return [];
     }
+    const postings: Set<number>[] = [];
+    for (const group of groups) {
+      const docIds = new Set<number>();
+      for (const { token } of group) {
+        const termId = this.dictionary.lookup(token);
+        for (const docId of this.getPostingDocIds(termId ?? -1)) {
+          docIds.add(docId);
+        }
+      }
+      if (docIds.size === 0) {
+        return [];
+      }
+      postings.push(docIds);
+    }
+    postings.sort((a, b) => a.size - b.size);
+
+    const [smallest, ...rest] = postings;
+    return Array.from(smallest)
+      .filter((docId) => rest.every((docIds) => docIds.has(docId)))
+      .flatMap((docId) => this.slots[docId] ?? []);
+  }
 
-    for (const token of docTokens) {
-      if (!this.invertedIndex.has(token)) {
-        this.invertedIndex.set(token, new Set());
+  /**
+   * Sums the group scores within `fields`, or returns 0 when any group has no
+   * term in those fields. Terms that scored are added to `matched`.
+   */
+  private scoreAllGroups(
+    doc: RepositoryDocument,
+    groups: QueryTerm[][],
+    fields: FieldName[],
+    matched: Set<string>
+  ): number {
+    let score = 0;
+    for (const group of groups) {
+      let groupScore = 0;
+      for (const { token, weight } of group) {
+        const idf = this.getInverseDocumentFrequency(token);
+        const termScore = weight * this.scoreTerm(doc, token, idf, fields);
+        if (termScore > 0) {
+          groupScore += termScore;
+          matched.add(token);
+        }
+      }
+      if (groupScore <= 0) {
+        return 0;
       }
-      this.invertedIndex.get(token)?.add(doc.id);
+      score += groupScore;
     }
+    return score;
+  }
 
-    doc.length += tokens.length * weight;
+  private getTokenWeight(token: Token): number {
+    return token.isDerived ? this.config.derivedTermWeight : 1;
   }
 
-  private ingestField(
+  private containsPhrase(
     doc: RepositoryDocument,
+    fields: FieldName[],
+    phrase: string[]
+  ): boolean {
+    const texts = getFieldTexts(doc.repository);
+    return fields.some((field) =>
+      containsSequence(
+        this.analyzer.tokenize(texts[field], this.getTokenLimit(field)),
+        phrase
+      )
+    );
+  }
+
+  private getTokenLimit(field: FieldName): number | undefined {
+    return README_FIELDS.includes(field)
+      ? this.config.maxReadmeTokens
+      : undefined;
+  }
+
+  /**
+   * Counts the field's terms into `counts` by term id and returns the field
+   * length. Derived tokens are searchable but do not make the field longer.
+   */
+  private analyzeField(
+    field: FieldName,
     rawValue: string,
-    weight: number,
-    tokenLimit?: number
-  ) {
-    if (!rawValue) {
-      return;
+    counts: Map<number, number>
+  ): number {
+    if (!rawValue || this.config.fieldWeights[field] <= 0) {
+      return 0;
     }
-    if (weight <= 0) {
-      return;
+
+    let length = 0;
+    const tokens = this.analyzer.analyze(rawValue, this.getTokenLimit(field));
+    for (const { text, isDerived } of tokens) {
+      const termId = this.dictionary.intern(text);
+      counts.set(termId, (counts.get(termId) ?? 0) + 1);
+      if (!isDerived) {
+        length += 1;
+      }
     }
+    return length;
+  }
 
-    const tokens = tokenize(rawValue, tokenLimit);
-    if (tokens.length === 0) {
-      return;
+  private insertDocument(
+    id: string,
+    repository: StarredRepository,
+    lengths: Uint32Array,
+    terms: DocumentTerms
+  ) {
+    const docId = this.freeSlots.pop() ?? this.slots.length;
+    const doc: RepositoryDocument = { id, docId, repository, lengths, terms };
+    this.slots[docId] = doc;
+    this.documents.set(id, doc);
+
+    for (const [index, field] of FIELD_NAMES.entries()) {
+      this.totalFieldLength[field] += lengths[index] ?? 0;
     }
+    for (const termId of uniqueTermIds(terms)) {
+      if (this.dictionary.adjustFrequency(termId, 1) === 1) {
+        this.fuzzyVocabulary = null;
+      }
+    }
+  }
 
-    const docTokens = new Set<string>();
-    for (const token of tokens) {
-      const weighted = doc.termFrequency.get(token) ?? 0;
-      doc.termFrequency.set(token, weighted + weight);
-      docTokens.add(token);
+  private getDocumentFrequency(token: string): number {
+    const termId = this.dictionary.lookup(token);
+    return termId === undefined ? 0 : this.dictionary.documentFrequency(termId);
+  }
+
+  /** Doc ids in the posting list of `termId`, ascending. */
+  private getPostingDocIds(termId: number): Uint32Array {
+    const { offsets, docIds } = this.postings;
+    return docIds.subarray(offsets[termId] ?? 0, offsets[termId + 1] ?? 0);
+  }
+
+  /** The document's entries for `token`, one per field it occurs in. */
+  private getTermEntries(
+    doc: RepositoryDocument,
+    token: string
+  ): [number, number] {
+    const termId = this.dictionary.lookup(token);
+    return termId === undefined ? [0, 0] : findTermEntries(doc.terms, termId);
+  }
+
+  private getEntryField(doc: RepositoryDocument, entry: number): FieldName {
+    return FIELD_NAMES[doc.terms.fields[entry] ?? 0] ?? "owner";
+  }
+
+  private getFieldLength(doc: RepositoryDocument, field: FieldName): number {
+    return doc.lengths[FIELD_NAMES.indexOf(field)] ?? 0;
+  }
+
+  /** `fieldWeight * termFrequency / lengthNormalization` of one entry. */
+  private getWeightedFrequency(doc: RepositoryDocument, entry: number): number {
+    const field = this.getEntryField(doc, entry);
+    const normalization = this.getLengthNormalization(
+      field,
+      this.getFieldLength(doc, field)
+    );
+    return (
+      (this.config.fieldWeights[field] * (doc.terms.counts[entry] ?? 0)) /
+      normalization
+    );
+  }
+
+  /**
+   * A posting's impact: the BM25F term score of entries `[start, end)` of
+   * document `docId` with an IDF of 1. IDF changes with every added
+   * repository, so it is applied at query time.
+   */
+  private computeImpact(docId: number, start: number, end: number): number {
+    const doc = this.slots[docId];
+    let frequency = 0;
+    for (let entry = start; doc && entry < end; entry++) {
+      frequency += this.getWeightedFrequency(doc, entry);
     }
+    return this.saturate(frequency, 1);
+  }
 
-    for (const token of docTokens) {
-      if (!this.invertedIndex.has(token)) {
-        this.invertedIndex.set(token, new Set());
+  /**
+   * BM25F: each field's term frequency is normalized by that field's own
+   * length and `b`, weighted, and summed before a single saturation, so a
+   * long README cannot drown out a short name match.
+   */
+  private scoreTerm(
+    doc: RepositoryDocument,
+    token: string,
+    idf: number,
+    fields: FieldName[]
+  ): number {
+    const [start, end] = this.getTermEntries(doc, token);
+    let frequency = 0;
+    for (let entry = start; entry < end; entry++) {
+      if (fields.includes(this.getEntryField(doc, entry))) {
+        frequency += this.getWeightedFrequency(doc, entry);
       }
-      this.invertedIndex.get(token)?.add(doc.id);
     }
+    return this.saturate(frequency, idf);
+  }
 
-    doc.length += tokens.length * weight;
+  private getLengthNormalization(field: FieldName, length: number): number {
+    const averageLength = this.averageFieldLength[field] || 1;
+    const b = this.config.fieldB[field];
+    return 1 - b + b * (length / averageLength);
   }
 
-  private normalizeDocumentFrequencies(
-    doc: RepositoryDocument
-  ): Map<string, number> {
-    const normalized = new Map<string, number>();
-    const { k1, b, delta } = this.config;
-    const averageLength = this.averageDocumentLength || 1;
-    const normalizationFactor = 1 - b + b * (doc.length / averageLength);
+  private saturate(frequency: number, idf: number): number {
+    if (frequency <= 0) {
+      return 0;
+    }
+    const { k1, delta } = this.config;
+    const baseTf = (frequency * (k1 + 1)) / (frequency + k1);
+    return (baseTf + delta) * idf;
+  }
 
-    for (const [token, frequency] of doc.termFrequency.entries()) {
-      const idf = this.inverseDocumentFrequency.get(token);
-      if (typeof idf !== "number") {
-        continue;
-      }
-      if (frequency <= 0) {
-        continue;
-      }
-      const denominator = frequency + k1 * normalizationFactor;
-      if (denominator === 0) {
-        continue;
-      }
-      const baseTf = (frequency * (k1 + 1)) / denominator;
-      const tf = baseTf + delta;
-      normalized.set(token, tf * idf);
+  private explainTerm(
+    doc: RepositoryDocument,
+    keyword: string,
+    { token, weight, match }: QueryTerm
+  ): TermScoreExplanation {
+    const fields: FieldScoreExplanation[] = [];
+    const [start, end] = this.getTermEntries(doc, token);
+    for (let entry = start; entry < end; entry++) {
+      const field = this.getEntryField(doc, entry);
+      const termFrequency = doc.terms.counts[entry] ?? 0;
+      const fieldLength = this.getFieldLength(doc, field);
+      const lengthNormalization = this.getLengthNormalization(
+        field,
+        fieldLength
+      );
+      const fieldWeight = this.config.fieldWeights[field];
+      fields.push({
+        field,
+        termFrequency,
+        fieldLength,
+        averageFieldLength: this.averageFieldLength[field],
+        lengthNormalization,
+        fieldWeight,
+        weightedFrequency: (fieldWeight * termFrequency) / lengthNormalization,
+      });
     }
 
-    return normalized;
+    const idf = this.getInverseDocumentFrequency(token);
+    const frequency = fields.reduce(
+      (sum, field) => sum + field.weightedFrequency,
+      0
+    );
+    return {
+      keyword,
+      token,
+      match,
+      queryWeight: weight,
+      inverseDocumentFrequency: idf,
+      frequency,
+      score: weight * idf * this.getImpact(doc, token),
+      fields,
+    };
+  }
+
+  /** The stored, single-precision impact search scores `token` with. */
+  private getImpact(doc: RepositoryDocument, token: string): number {
+    const termId = this.dictionary.lookup(token);
+    const position =
+      termId === undefined ? -1 : findPosting(this.postings, termId, doc.docId);
+    return position >= 0 ? (this.postings.impacts[position] ?? 0) : 0;
   }
 }
@@ -0,0 +1,64 @@
+import { createContext, type ReactNode, useContext, useMemo } from "react";
+import { useGithubStarredRepositories } from "../github/use-github-starred-repositories";
+import { useLikedRepositories } from "./use-repository-like";
+import {
+  memoizeSearch,
+  type UseRepositorySearchResult,
+  useRepositorySearch,
+} from "./use-repository-search";
+
+const RepositorySearchContext = createContext<UseRepositorySearchResult | null>(
+  null
+);
+
+/**
+ * Owns the one search engine the app shares, indexed over the signed-in
+ * user's stars with their likes applied. Results are memoized per keyword set
+ * or query and options until the index changes.
+ */
+export function RepositorySearchProvider({
+  children,
+}: {
+  children: ReactNode;
+}) {
+  const github = useGithubStarredRepositories();
+  const { data: likedRepos } = useLikedRepositories();
+  const likedRepositoryIds = useMemo(
+    () => likedRepos?.map((like) => `${like.likedOwner}/${like.likedName}`),
+    [likedRepos]
+  );
+  const repositorySearch = useRepositorySearch({
+    repositories: github.repositories,
+    userId: github.userId,
+    likedRepositoryIds,
+    isPartial: github.readmeProgress !== null,
+  });
+  const search = useMemo(
+    () => memoizeSearch(repositorySearch.search),
+    [repositorySearch.search]
+  );
+  const searchQuery = useMemo(
+    () => memoizeSearch(repositorySearch.searchQuery),
+    [repositorySearch.searchQuery]
+  );
+  const value = useMemo(
+    () => ({ ...repositorySearch, search, searchQuery }),
+    [repositorySearch, search, searchQuery]
+  );
+
+  return (
+    <RepositorySearchContext.Provider value={value}>
+      {children}
+    </RepositorySearchContext.Provider>
+  );
+}
+
+export function useSharedRepositorySearch(): UseRepositorySearchResult {
+  const value = useContext(RepositorySearchContext);
+  if (!value) {
+    throw new Error(
+      "useSharedRepositorySearch must be used within RepositorySearchProvider"
+    );
+  }
+  return value;
+}
@@ -0,0 +1,282 @@
+import type { StarredRepository } from "@i-starred-it/api/services/github";
+import { get, set } from "idb-keyval";
+import type {
+  AlternativeGroup,
+  AlternativeOptions,
+} from "./repository-alternatives";
+import type {
+  ClusterOptions,
+  RepositoryClustering,
+} from "./repository-clustering";
+import {
+  type RepositoryDiagnosis,
+  RepositorySearchEngine,
+  type RepositorySearchResult,
+  type ScoreExplanation,
+  type SearchOptions,
+  type SerializedSearchIndex,
+} from "./repository-search-engine";
+
+const STORAGE_PREFIX = "repository-search-index";
+const INDEX_PROGRESS_CHUNK_SIZE = 100;
+
+export type IndexingProgress = {
+  indexed: number;
+  total: number;
+};
+
+export type SyncResult = {
+  indexedCount: number;
+  /** Indexed repositories whose README is in the index. */
+  indexedReadmeCount: number;
+  hasChanges: boolean;
+};
+
+type ProgressReporter = (progress: IndexingProgress) => void;
+
+const buildStorageKey = (userId: string) => `${STORAGE_PREFIX}:${userId}`;
+
+async function readPersistedIndex(
+  userId: string
+): Promise<RepositorySearchEngine | null> {
+  try {
+    const snapshot = await get<SerializedSearchIndex>(buildStorageKey(userId));
+    return snapshot ? RepositorySearchEngine.deserialize(snapshot) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function persistIndex(userId: string, engine: RepositorySearchEngine) {
+  await set(buildStorageKey(userId), engine.serialize());
+}
+
+function buildRepositoryId(repository: StarredRepository): string {
+  return `${repository.owner}/${repository.name}`;
+}
+
+/**
+ * Everything the search worker can do. The worker entry point and the
+ * in-process fallback both dispatch messages to this object, so its methods
+ * must only take and return structured-clone-safe values.
+ */
+export function createRepositorySearchWorkerApi(
+  reportProgress: ProgressReporter
+) {
+  let engine = new RepositorySearchEngine();
+  let engineUserId: string | null = null;
+  // Kept outside the engine so it survives restoring another user's index.
+  let likedIds: string[] = [];
+  // Syncs await IndexedDB, so they are chained to keep two of them from
+  // interleaving on the same engine.
+  let syncQueue: Promise<unknown> = Promise.resolve();
+  // Set by partial syncs, which change the index without persisting it.
+  let hasUnpersistedChanges = false;
+
+  const loadEngine = async (userId: string | null) => {
+    if (engineUserId === userId && engine.size > 0) {
+      return;
+    }
+    const restored = userId ? await readPersistedIndex(userId) : null;
+    engine = restored ?? new RepositorySearchEngine();
+    engine.setLikedRepositories(likedIds);
+    engineUserId = userId;
+    hasUnpersistedChanges = false;
+  };
+
+  const indexRepositories = (repositories: StarredRepository[]): boolean => {
+    let hasChanges = false;
+    const total = repositories.length;
+    for (const [index, repository] of repositories.entries()) {
+      if (engine.update(repository)) {
+        hasChanges = true;
+      }
+      const indexed = index + 1;
+      if (indexed % INDEX_PROGRESS_CHUNK_SIZE === 0 || indexed === total) {
+        reportProgress({ indexed, total });
+      }
+    }
+    return hasChanges;
+  };
+
+  // Partial data carries null for every README still loading. Keeping the
+  // indexed README instead spares re-tokenizing every repository twice and
+  // keeps README matches while a refresh runs.
+  const keepIndexedReadmes = (repositories: StarredRepository[]) =>
+    repositories.map((repository) => {
+      if (repository.readme !== null) {
+        return repository;
+      }
+      const readme = engine.get(buildRepositoryId(repository))?.readme ?? null;
+      return readme === null ? repository : { ...repository, readme };
+    });
+
+  const runSync = async (
+    repositories: StarredRepository[],
+    userId: string | null,
+    isPartial: boolean
+  ): Promise<SyncResult> => {
+    await loadEngine(userId);
+
+    const indexed = isPartial ? keepIndexedReadmes(repositories) : repositories;
+    let hasChanges = indexRepositories(indexed);
+    const nextIds = new Set(repositories.map(buildRepositoryId));
+    for (const id of engine.ids()) {
+      if (!nextIds.has(id) && engine.remove(id)) {
+        hasChanges = true;
+      }
+    }
+    hasUnpersistedChanges ||= hasChanges;
+
+    // Partial syncs arrive every second while READMEs load; the engine
+    // consolidates lazily on the next search, so a burst of them rebuilds the
+    // posting lists once, and only the complete index is written out.
+    if (!isPartial) {
+      engine.consolidate();
+      if (userId && hasUnpersistedChanges) {
+        await persistIndex(userId, engine).catch(() => {
+          return;
+        });
+      }
+      hasUnpersistedChanges = false;
+    }
+
+    return {
+      indexedCount: engine.size,
+      indexedReadmeCount: indexed.filter(
+        (repository) => repository.readme !== null
+      ).length,
+      hasChanges,
+    };
+  };
+
+  return {
+    /**
+     * Brings the index in line with `repositories`, restoring the persisted
+     * index for `userId` first and tokenizing only what changed. Partial
+     * syncs, sent while READMEs are still loading, are not persisted.
+     */
+    sync(
+      repositories: StarredRepository[],
+      userId: string | null,
+      isPartial = false
+    ): Promise<SyncResult> {
+      const result = syncQueue.then(() =>
+        runSync(repositories, userId, isPartial)
+      );
+      syncQueue = result.catch(() => {
+        return;
+      });
+      return result;
+    },
+
+    add(repositories: StarredRepository[]): number {
+      indexRepositories(repositories);
+      return engine.size;
+    },
+
+    remove(ids: string[]): number {
+      for (const id of ids) {
+        engine.remove(id);
+      }
+      return engine.size;
+    },
+
+    consolidate(): number {
+      engine.consolidate();
+      return engine.size;
+    },
+
+    /** One id per "Found it!" like, used for personal boosts. */
+    setLikedRepositories(ids: string[]): void {
+      likedIds = ids;
+      engine.setLikedRepositories(ids);
+    },
+
+    search(
+      keywords: string[],
+      options?: SearchOptions
+    ): RepositorySearchResult[] {
+      return engine.search(keywords, options);
+    },
+
+    searchQuery(
+      query: string,
+      options?: SearchOptions
+    ): RepositorySearchResult[] {
+      return engine.searchQuery(query, options);
+    },
+
+    similar(id: string, limit?: number): RepositorySearchResult[] {
+      return engine.similar(id, limit);
+    },
+
+    cluster(options?: ClusterOptions): RepositoryClustering {
+      return engine.cluster(options);
+    },
+
+    alternatives(options?: AlternativeOptions): AlternativeGroup[] {
+      return engine.alternatives(options);
+    },
+
+    explain(
+      id: string,
+      keywords: string[],
+      now?: number
+    ): ScoreExplanation | null {
+      return engine.explain(id, keywords, now);
+    },
+
+    diagnose(
+      id: string,
+      keywords: string[],
+      options?: SearchOptions
+    ): RepositoryDiagnosis {
+      return engine.diagnose(id, keywords, options);
+    },
+
+    reset(): void {
+      engine.reset();
+      engineUserId = null;
+      reportProgress({ indexed: 0, total: 0 });
+    },
+  };
+}
+
+export type RepositorySearchWorkerApi = ReturnType<
+  typeof createRepositorySearchWorkerApi
+>;
+
+export type RepositorySearchMethod = keyof RepositorySearchWorkerApi;
+
+export type RepositorySearchRequest = {
+  [Method in RepositorySearchMethod]: {
+    id: number;
+    method: Method;
+    args: Parameters<RepositorySearchWorkerApi[Method]>;
+  };
+}[RepositorySearchMethod];
+
+export type RepositorySearchResponse =
+  | { type: "result"; id: number; value: unknown }
+  | { type: "error"; id: number; message: string }
+  | { type: "progress"; progress: IndexingProgress };
+
+export async function dispatchRepositorySearchRequest(
+  api: RepositorySearchWorkerApi,
+  request: RepositorySearchRequest
+): Promise<RepositorySearchResponse> {
+  try {
+    const method = api[request.method] as (
+      ...args: RepositorySearchRequest["args"]
+    ) => unknown;
+    const value = await method(...request.args);
+    return { type: "result", id: request.id, value };
+  } catch (error) {
+    return {
+      type: "error",
+      id: request.id,
+      message: error instanceof Error ? error.message : "Search worker failed",
+    };
+  }
+}
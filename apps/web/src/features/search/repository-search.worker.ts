@@ -0,0 +1,21 @@
+import {
+  createRepositorySearchWorkerApi,
+  dispatchRepositorySearchRequest,
+  type RepositorySearchRequest,
+  type RepositorySearchResponse,
+} from "./repository-search-worker-api";
+
+const post = (response: RepositorySearchResponse) => {
+  self.postMessage(response);
+};
+
+const api = createRepositorySearchWorkerApi((progress) => {
+  post({ type: "progress", progress });
+});
+
+self.addEventListener(
+  "message",
+  (event: MessageEvent<RepositorySearchRequest>) => {
+    dispatchRepositorySearchRequest(api, event.data).then(post);
+  }
+);
@@ -0,0 +1,209 @@
+import { Target } from "lucide-react";
+import { useState } from "react";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Separator } from "@/components/ui/separator";
+import { Spinner } from "@/components/ui/spinner";
+import { cn } from "@/lib/utils";
+import type {
+  ScoreExplanation,
+  TermScoreExplanation,
+} from "./repository-search-engine";
+import { FIELD_LABELS } from "./search-field-labels";
+import type { PriorBreakdown } from "./search-priors";
+import type { RepositoryExplainFn } from "./use-repository-search";
+
+const MATCH_LABELS = {
+  exact: null,
+  derived: "derived",
+  fuzzy: "fuzzy",
+} as const;
+
+const formatNumber = (value: number) => value.toFixed(2);
+
+type ExplanationState =
+  | { status: "idle" }
+  | { status: "loading" }
+  | { status: "ready"; explanation: ScoreExplanation | null }
+  | { status: "error" };
+
+function TermBreakdown({ term }: { term: TermScoreExplanation }) {
+  const matchLabel = MATCH_LABELS[term.match];
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-1.5 font-mono text-xs">
+          {term.keyword === term.token
+            ? term.token
+            : `${term.keyword} → ${term.token}`}
+          {matchLabel && (
+            <span className="rounded bg-muted px-1 text-[10px] text-muted-foreground">
+              {matchLabel} ×{formatNumber(term.queryWeight)}
+            </span>
+          )}
+        </span>
+        <span className="font-mono font-semibold text-primary text-xs">
+          {formatNumber(term.score)}
+        </span>
+      </div>
+      <div className="text-[10px] text-muted-foreground">
+        IDF {formatNumber(term.inverseDocumentFrequency)} · weighted TF{" "}
+        {formatNumber(term.frequency)}
+      </div>
+      <table className="w-full font-mono text-[10px]">
+        <thead className="text-muted-foreground">
+          <tr>
+            <th className="text-left font-normal">Field</th>
+            <th className="text-right font-normal">TF</th>
+            <th className="text-right font-normal">Len/avg</th>
+            <th className="text-right font-normal">Norm</th>
+            <th className="text-right font-normal">Weight</th>
+          </tr>
+        </thead>
+        <tbody>
+          {term.fields.map((field) => (
+            <tr key={field.field}>
+              <td>{FIELD_LABELS[field.field]}</td>
+              <td className="text-right">{field.termFrequency}</td>
+              <td className="text-right">
+                {field.fieldLength}/{Math.round(field.averageFieldLength)}
+              </td>
+              <td className="text-right">
+                {formatNumber(field.lengthNormalization)}
+              </td>
+              <td className="text-right">{formatNumber(field.fieldWeight)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function PriorSummary({
+  textScore,
+  priors,
+}: {
+  textScore: number;
+  priors: PriorBreakdown;
+}) {
+  const parts = [`text ${formatNumber(textScore)}`];
+  if (priors.starBoost > 0) {
+    parts.push(`stars +${formatNumber(priors.starBoost)}`);
+  }
+  if (priors.recencyBoost > 0) {
+    parts.push(`starred recently +${formatNumber(priors.recencyBoost)}`);
+  }
+  if (priors.personalBoost > 0) {
+    parts.push(`your picks +${formatNumber(priors.personalBoost)}`);
+  }
+  if (priors.stalePenalty > 0) {
+    parts.push(`stale −${formatNumber(priors.stalePenalty)}`);
+  }
+  return (
+    <p className="text-[10px] text-muted-foreground">{parts.join(" · ")}</p>
+  );
+}
+
+function ExplanationBody({ state }: { state: ExplanationState }) {
+  if (state.status === "idle" || state.status === "loading") {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Spinner className="size-4" />
+      </div>
+    );
+  }
+  if (state.status === "error" || !state.explanation) {
+    return (
+      <p className="text-muted-foreground text-xs">
+        No explanation available for this repository.
+      </p>
+    );
+  }
+
+  const matched = state.explanation.terms.filter((term) => term.score > 0);
+  const missed = state.explanation.terms.filter((term) => term.score <= 0);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <PriorSummary
+        priors={state.explanation.priors}
+        textScore={state.explanation.textScore}
+      />
+      {matched.map((term) => (
+        <TermBreakdown key={`${term.keyword}:${term.token}`} term={term} />
+      ))}
+      {missed.length > 0 && (
+        <>
+          <Separator />
+          <p className="text-[10px] text-muted-foreground">
+            Not found:{" "}
+            <span className="font-mono">
+              {missed.map((term) => term.token).join(", ")}
+            </span>
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+export function ScoreExplanationPopover({
+  id,
+  score,
+  keywords,
+  explain,
+}: {
+  id: string;
+  score: number;
+  keywords: string[];
+  explain?: RepositoryExplainFn;
+}) {
+  const [state, setState] = useState<ExplanationState>({ status: "idle" });
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!(isOpen && explain)) {
+      return;
+    }
+    setState({ status: "loading" });
+    explain(id, keywords)
+      .then((explanation) => {
+        setState({ status: "ready", explanation });
+      })
+      .catch(() => {
+        setState({ status: "error" });
+      });
+  };
+
+  return (
+    <Popover onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          className={cn(
+            "flex items-center gap-1 rounded-md bg-primary/10 px-1.5 py-0.5",
+            "font-mono text-primary text-xs",
+            explain ? "cursor-pointer hover:bg-primary/20" : "cursor-default"
+          )}
+          disabled={!explain}
+          type="button"
+        >
+          <Target className="size-3 text-primary/60" />
+          {score.toFixed(2)}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="max-h-96 w-80 overflow-y-auto">
+        <div className="mb-3 flex items-center justify-between">
+          <span className="font-semibold text-sm">Relevance score</span>
+          <span className="font-mono text-primary text-sm">
+            {score.toFixed(2)}
+          </span>
+        </div>
+        <ExplanationBody state={state} />
+      </PopoverContent>
+    </Popover>
+  );
+}
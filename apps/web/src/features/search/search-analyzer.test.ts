@@ -0,0 +1,179 @@
+import { describe, expect, it } from "vitest";
+import {
+  cjkBigramFilter,
+  createAnalyzer,
+  createStandardAnalyzer,
+  defaultAnalyzer,
+  lowercaseFilter,
+  stemEnglish,
+  type Token,
+} from "./search-analyzer";
+
+const derivedOf = (tokens: Token[]) =>
+  tokens.filter((token) => token.isDerived).map((token) => token.text);
+
+describe("defaultAnalyzer", () => {
+  it("lowercases and splits on punctuation", () => {
+    expect(defaultAnalyzer.tokenize("React-Query foo_bar v1.2")).toEqual([
+      "react",
+      "query",
+      "foo",
+      "bar",
+      "v1",
+      "2",
+    ]);
+  });
+
+  it("folds diacritics", () => {
+    expect(defaultAnalyzer.tokenize("Café Ångström naïve")).toEqual([
+      "cafe",
+      "angstrom",
+      "naive",
+    ]);
+  });
+
+  it("folds full-width Latin", () => {
+    expect(defaultAnalyzer.tokenize("ＲＥＡＣＴ")).toEqual(["react"]);
+  });
+
+  it("keeps Hangul syllables intact while folding", () => {
+    expect(defaultAnalyzer.tokenize("검색")).toEqual(["검색"]);
+  });
+
+  it("splits Korean into character bigrams", () => {
+    expect(defaultAnalyzer.tokenize("검색엔진을 만든다")).toEqual([
+      "검색",
+      "색엔",
+      "엔진",
+      "진을",
+      "만든",
+      "든다",
+    ]);
+  });
+
+  it("splits Japanese and Chinese into character bigrams", () => {
+    expect(defaultAnalyzer.tokenize("東京タワー")).toEqual([
+      "東京",
+      "京タ",
+      "タワ",
+      "ワー",
+    ]);
+    expect(defaultAnalyzer.tokenize("搜索引擎")).toEqual(
+      expect.arrayContaining(["搜索", "引擎"])
+    );
+  });
+
+  it("keeps Latin text mixed into CJK runs as whole words", () => {
+    expect(defaultAnalyzer.tokenize("react용 훅")).toEqual([
+      "react",
+      "용",
+      "훅",
+    ]);
+  });
+
+  it("applies the token limit after analysis", () => {
+    const limit = 2;
+    expect(defaultAnalyzer.tokenize("one two three", limit)).toEqual([
+      "one",
+      "two",
+    ]);
+  });
+});
+
+describe("identifier splitting", () => {
+  const analyzer = createStandardAnalyzer({ stemming: false });
+
+  it("keeps the whole identifier as the base token", () => {
+    expect(analyzer.tokenize("TanStackRouter")).toEqual(["tanstackrouter"]);
+  });
+
+  it("derives camelCase parts", () => {
+    expect(derivedOf(analyzer.analyze("TanStackRouter"))).toEqual([
+      "tan",
+      "stack",
+      "router",
+    ]);
+    expect(derivedOf(analyzer.analyze("XMLHttpRequest"))).toEqual([
+      "xml",
+      "http",
+      "request",
+    ]);
+  });
+
+  it("derives the compound of kebab, snake and dotted names", () => {
+    expect(derivedOf(analyzer.analyze("react-query"))).toEqual(["reactquery"]);
+    expect(derivedOf(analyzer.analyze("snake_case"))).toEqual(["snakecase"]);
+    expect(derivedOf(analyzer.analyze("next.js"))).toEqual(["nextjs"]);
+  });
+
+  it("does not join words separated by spaces or dashes with spaces", () => {
+    expect(derivedOf(analyzer.analyze("react query - router"))).toEqual([]);
+  });
+
+  it("leaves lowercase words and caseless scripts alone", () => {
+    expect(derivedOf(analyzer.analyze("router 검색"))).toEqual([]);
+  });
+
+  it("counts only base tokens against the limit", () => {
+    const limit = 1;
+    expect(analyzer.analyze("TanStackRouter next", limit)).toEqual([
+      { text: "tanstackrouter", isDerived: false },
+      { text: "tan", isDerived: true },
+      { text: "stack", isDerived: true },
+      { text: "router", isDerived: true },
+    ]);
+  });
+});
+
+describe("stemming", () => {
+  it("conflates inflections", () => {
+    expect(stemEnglish("parsing")).toBe("pars");
+    expect(stemEnglish("parses")).toBe("pars");
+    expect(stemEnglish("parsed")).toBe("pars");
+    expect(stemEnglish("queries")).toBe(stemEnglish("query"));
+  });
+
+  it("strips the agent noun suffix only from known stems", () => {
+    const isKnownStem = (stem: string) => stem === "pars";
+    expect(stemEnglish("parser", isKnownStem)).toBe("pars");
+    expect(stemEnglish("parsers", isKnownStem)).toBe("pars");
+    expect(stemEnglish("number", isKnownStem)).toBe("number");
+  });
+
+  it("keeps words ending in er intact without known stems", () => {
+    expect(stemEnglish("user")).toBe("user");
+    expect(stemEnglish("number")).toBe("number");
+    expect(stemEnglish("paper")).toBe("paper");
+    expect(stemEnglish("never")).toBe("never");
+  });
+
+  it("adds stems as derived tokens only when they differ", () => {
+    expect(defaultAnalyzer.analyze("react parsing")).toEqual([
+      { text: "react", isDerived: false },
+      { text: "parsing", isDerived: false },
+      { text: "pars", isDerived: true },
+    ]);
+  });
+
+  it("is optional", () => {
+    const analyzer = createStandardAnalyzer({ stemming: false });
+    expect(derivedOf(analyzer.analyze("parsing"))).toEqual([]);
+    expect(analyzer.id).not.toBe(defaultAnalyzer.id);
+  });
+});
+
+describe("createAnalyzer", () => {
+  it("runs the filters in order", () => {
+    const analyzer = createAnalyzer({
+      id: "whitespace",
+      segmenter: (text) => text.split(" "),
+      filters: [lowercaseFilter, cjkBigramFilter],
+    });
+    expect(analyzer.tokenize("Hello 世界です")).toEqual([
+      "hello",
+      "世界",
+      "界で",
+      "です",
+    ]);
+  });
+});
@@ -0,0 +1,299 @@
+import { stemmer } from "stemmer";
+
+/**
+ * Splits raw text into word-like segments. Segments may still contain
+ * punctuation such as `_`, `.` or `-`, which the token filters deal with.
+ */
+export type Segmenter = (text: string) => string[];
+
+/**
+ * Base tokens are the words of the text in order; they drive phrase matching
+ * and field lengths. Derived tokens (identifier parts, compounds, stems) are
+ * indexed alongside them so looser spellings still match.
+ */
+export type Token = {
+  text: string;
+  isDerived: boolean;
+};
+
+export type TokenFilter = (tokens: Token[]) => Token[];
+
+export type Analyzer = {
+  /**
+   * Stored with persisted indexes, so change it whenever the produced tokens
+   * change.
+   */
+  id: string;
+  /**
+   * Base and derived tokens. `limit` counts base tokens only.
+   */
+  analyze: (text: string, limit?: number) => Token[];
+  tokenize: (text: string, limit?: number) => string[];
+};
+
+type AnalyzerPipeline = {
+  id: string;
+  segmenter: Segmenter;
+  filters: TokenFilter[];
+};
+
+type StandardAnalyzerOptions = {
+  stemming: boolean;
+};
+
+const WORD_PATTERN = /[\p{L}\p{N}\p{M}]+(?:[-_.][\p{L}\p{N}\p{M}]+)*/gu;
+const WORD_CHARACTER_PATTERN = /[\p{L}\p{N}]+/gu;
+const CAMEL_CASE_PART_PATTERN = /\p{Lu}+(?!\p{Ll})|\p{Lu}?[\p{Ll}\p{N}]+/gu;
+const STEMMABLE_PATTERN = /^[a-z]+$/;
+const COMBINING_DIACRITICS_PATTERN = /[\u0300-\u036f]/g;
+// Han, kana and Hangul, plus the prolonged sound mark, which Unicode files
+// under the Common script.
+const CJK_CHARACTERS =
+  "\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}\\u30fc";
+const CJK_PATTERN = new RegExp(`[${CJK_CHARACTERS}]`, "u");
+const CJK_RUN_PATTERN = new RegExp(
+  `[${CJK_CHARACTERS}]+|[^${CJK_CHARACTERS}]+`,
+  "gu"
+);
+
+const AGENT_SUFFIX = "er";
+const MIN_AGENT_STEM_LENGTH = 3;
+
+let wordSegmenter: Intl.Segmenter | null | undefined;
+
+function getWordSegmenter(): Intl.Segmenter | null {
+  if (wordSegmenter === undefined) {
+    wordSegmenter =
+      typeof Intl !== "undefined" && "Segmenter" in Intl
+        ? new Intl.Segmenter(undefined, { granularity: "word" })
+        : null;
+  }
+  return wordSegmenter;
+}
+
+const mapText =
+  (transform: (text: string) => string): TokenFilter =>
+  (tokens) =>
+    tokens.map((token) => ({ ...token, text: transform(token.text) }));
+
+/**
+ * Unicode word segmentation via `Intl.Segmenter`, falling back to runs of
+ * letters, marks and digits where the runtime lacks it. Words joined by a
+ * single hyphen stay together so `react-query` reaches the identifier filter
+ * as one segment.
+ */
+export const unicodeWordSegmenter: Segmenter = (text) => {
+  const segmenter = getWordSegmenter();
+  if (!segmenter) {
+    return text.match(WORD_PATTERN) ?? [];
+  }
+  const words: string[] = [];
+  let isJoining = false;
+  let previousWasWord = false;
+  for (const { segment, isWordLike } of segmenter.segment(text)) {
+    if (isWordLike) {
+      if (isJoining) {
+        words[words.length - 1] += `-${segment}`;
+      } else {
+        words.push(segment);
+      }
+      isJoining = false;
+      previousWasWord = true;
+      continue;
+    }
+    isJoining = previousWasWord && segment === "-";
+    previousWasWord = false;
+  }
+  return words;
+};
+
+export const lowercaseFilter: TokenFilter = mapText((text) =>
+  text.toLowerCase()
+);
+
+/**
+ * Folds accents (`café` → `cafe`) and compatibility forms such as full-width
+ * Latin. Only Latin combining marks are dropped; the NFC pass recomposes
+ * Hangul syllables and kana voicing marks.
+ */
+export const diacriticFoldingFilter: TokenFilter = mapText((text) =>
+  text
+    .normalize("NFKD")
+    .replace(COMBINING_DIACRITICS_PATTERN, "")
+    .normalize("NFC")
+);
+
+function splitCamelCase(word: string): string[] {
+  const parts = word.match(CAMEL_CASE_PART_PATTERN) ?? [];
+  // Scripts without case, or words the pattern cannot fully cover, are left
+  // alone rather than losing characters.
+  if (parts.length < 2 || parts.join("") !== word) {
+    return [];
+  }
+  return parts;
+}
+
+/**
+ * Splits segments on anything that is not a letter or digit, so `foo_bar` and
+ * `v1.2` become separate words, and additionally derives
+ * camelCase parts (`TanStackRouter` → `tan`, `stack`, `router`) and the
+ * compound of snake_case, kebab-case and dotted names (`react-query` →
+ * `reactquery`). Must run before lowercasing.
+ */
+export const identifierFilter: TokenFilter = (tokens) => {
+  const output: Token[] = [];
+  for (const token of tokens) {
+    const words = token.text.match(WORD_CHARACTER_PATTERN) ?? [];
+    for (const word of words) {
+      output.push({ text: word, isDerived: token.isDerived });
+      for (const part of splitCamelCase(word)) {
+        output.push({ text: part, isDerived: true });
+      }
+    }
+    if (words.length > 1) {
+      output.push({ text: words.join(""), isDerived: true });
+    }
+  }
+  return output;
+};
+
+function toBigrams(run: string): string[] {
+  const characters = Array.from(run);
+  if (characters.length < 2) {
+    return characters;
+  }
+  const bigrams: string[] = [];
+  for (let index = 0; index < characters.length - 1; index++) {
+    bigrams.push(characters[index] + characters[index + 1]);
+  }
+  return bigrams;
+}
+
+/**
+ * Replaces runs of Han, kana and Hangul with overlapping character bigrams.
+ * Those scripts either have no spaces or glue particles onto words
+ * (`검색엔진을`), so bigrams let `검색` match without a dictionary.
+ */
+export const cjkBigramFilter: TokenFilter = (tokens) => {
+  const output: Token[] = [];
+  for (const token of tokens) {
+    if (!CJK_PATTERN.test(token.text)) {
+      output.push(token);
+      continue;
+    }
+    for (const run of token.text.match(CJK_RUN_PATTERN) ?? []) {
+      const pieces = CJK_PATTERN.test(run) ? toBigrams(run) : [run];
+      for (const piece of pieces) {
+        output.push({ text: piece, isDerived: token.isDerived });
+      }
+    }
+  }
+  return output;
+};
+
+/**
+ * Porter stemming, so `parses`, `parsing` and `parsed` share the stem `pars`.
+ * Porter keeps the suffix of agent nouns such as `parser`; it is stripped
+ * only when `isKnownStem` confirms the shorter stem is a real one, since
+ * stripping it blindly would also turn `number` into `numb`.
+ */
+export function stemEnglish(
+  word: string,
+  isKnownStem?: (stem: string) => boolean
+): string {
+  const stem = stemmer(word);
+  if (!(isKnownStem && stem.endsWith(AGENT_SUFFIX))) {
+    return stem;
+  }
+  const shorter = stem.slice(0, -AGENT_SUFFIX.length);
+  return shorter.length >= MIN_AGENT_STEM_LENGTH && isKnownStem(shorter)
+    ? shorter
+    : stem;
+}
+
+/** The agent noun Porter leaves unstemmed, such as `parser` for `pars`. */
+export function agentNounOf(stem: string): string {
+  return `${stem}${AGENT_SUFFIX}`;
+}
+
+/**
+ * Adds the English stem after every lowercase Latin token whose stem differs.
+ */
+export const stemmingFilter: TokenFilter = (tokens) => {
+  const output: Token[] = [];
+  for (const token of tokens) {
+    output.push(token);
+    if (!STEMMABLE_PATTERN.test(token.text)) {
+      continue;
+    }
+    const stem = stemEnglish(token.text);
+    if (stem !== token.text) {
+      output.push({ text: stem, isDerived: true });
+    }
+  }
+  return output;
+};
+
+function limitBaseTokens(tokens: Token[], limit?: number): Token[] {
+  if (!limit) {
+    return tokens;
+  }
+  let baseCount = 0;
+  for (const [index, token] of tokens.entries()) {
+    if (token.isDerived) {
+      continue;
+    }
+    baseCount += 1;
+    if (baseCount > limit) {
+      return tokens.slice(0, index);
+    }
+  }
+  return tokens;
+}
+
+export function createAnalyzer({
+  id,
+  segmenter,
+  filters,
+}: AnalyzerPipeline): Analyzer {
+  const analyze = (text: string, limit?: number): Token[] => {
+    let tokens: Token[] = segmenter(text).map((segment) => ({
+      text: segment,
+      isDerived: false,
+    }));
+    for (const filter of filters) {
+      tokens = filter(tokens);
+    }
+    return limitBaseTokens(tokens, limit);
+  };
+
+  return {
+    id,
+    analyze,
+    tokenize: (text, limit) =>
+      analyze(text, limit)
+        .filter((token) => !token.isDerived)
+        .map((token) => token.text),
+  };
+}
+
+export function createStandardAnalyzer({
+  stemming,
+}: StandardAnalyzerOptions): Analyzer {
+  const filters = [
+    identifierFilter,
+    lowercaseFilter,
+    diacriticFoldingFilter,
+    cjkBigramFilter,
+  ];
+  if (stemming) {
+    filters.push(stemmingFilter);
+  }
+  return createAnalyzer({
+    id: stemming ? "unicode-identifier-porter-3" : "unicode-identifier",
+    segmenter: unicodeWordSegmenter,
+    filters,
+  });
+}
+
+export const defaultAnalyzer = createStandardAnalyzer({ stemming: true });
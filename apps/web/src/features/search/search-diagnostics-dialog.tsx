@@ -0,0 +1,244 @@
+import { SearchX } from "lucide-react";
+import { type FormEvent, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import type {
+  FieldName,
+  RepositoryDiagnosis,
+} from "./repository-search-engine";
+import { FIELD_LABELS } from "./search-field-labels";
+
+export type DiagnoseRepositoryFn = (
+  id: string
+) => Promise<RepositoryDiagnosis | null>;
+
+type DiagnosisState =
+  | { status: "idle" }
+  | { status: "loading" }
+  | { status: "ready"; diagnosis: RepositoryDiagnosis | null }
+  | { status: "error" };
+
+const REPOSITORY_ID_PATTERN = /^\s*([\w.-]+)\/([\w.-]+?)(?:\.git)?\s*$/;
+const GITHUB_URL_PREFIX_PATTERN = /^\s*(?:https?:\/\/)?github\.com\//i;
+const DIAGNOSED_FIELDS: FieldName[] = [
+  "owner",
+  "name",
+  "description",
+  "readme",
+];
+
+/**
+ * Accepts `owner/name` or a GitHub URL and returns `owner/name`, or null.
+ */
+function parseRepositoryId(value: string): string | null {
+  const match = REPOSITORY_ID_PATTERN.exec(
+    value.replace(GITHUB_URL_PREFIX_PATTERN, "")
+  );
+  return match ? `${match[1]}/${match[2]}` : null;
+}
+
+function FieldSummary({ diagnosis }: { diagnosis: RepositoryDiagnosis }) {
+  return (
+    <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+      {DIAGNOSED_FIELDS.map((field) => {
+        const length = diagnosis.fieldLengths[field];
+        const isMissing =
+          (field === "readme" && !diagnosis.hasReadme) ||
+          (field === "description" && !diagnosis.hasDescription);
+        return (
+          <div className="flex justify-between gap-2" key={field}>
+            <span className="text-muted-foreground">{FIELD_LABELS[field]}</span>
+            <span className={cn("font-mono", isMissing && "text-destructive")}>
+              {isMissing ? "not cached" : `${length} tokens`}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function KeywordSummary({ diagnosis }: { diagnosis: RepositoryDiagnosis }) {
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {diagnosis.keywords.map(({ keyword, matchedTokens }) => (
+        <span
+          className={cn(
+            "rounded-md px-2 py-0.5 font-mono text-xs",
+            matchedTokens.length > 0
+              ? "bg-primary/10 text-primary"
+              : "bg-muted text-muted-foreground line-through"
+          )}
+          key={keyword}
+          title={
+            matchedTokens.length > 0
+              ? `Matched ${matchedTokens.join(", ")}`
+              : "No match"
+          }
+        >
+          {keyword}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function RankSummary({ diagnosis }: { diagnosis: RepositoryDiagnosis }) {
+  const { rank, matchCount, limit, score, cutoffScore, scoreGap } = diagnosis;
+  if (diagnosis.isFilteredOut) {
+    return (
+      <p className="text-sm">
+        The active filters hide this repository. Clear them in the filter bar to
+        see where it ranks.
+      </p>
+    );
+  }
+  if (rank === null) {
+    return (
+      <p className="text-sm">
+        No keyword matched this repository, so it cannot appear in the results.
+      </p>
+    );
+  }
+  if (diagnosis.isInTopResults) {
+    return (
+      <p className="text-sm">
+        Ranked <strong>#{rank}</strong> of {matchCount} with a score of{" "}
+        {score.toFixed(2)}, within the top {limit}.
+      </p>
+    );
+  }
+  return (
+    <p className="text-sm">
+      Ranked <strong>#{rank}</strong> of {matchCount} with a score of{" "}
+      {score.toFixed(2)}. It needs more than{" "}
+      <strong>+{scoreGap.toFixed(2)}</strong> to pass the top {limit} cutoff of{" "}
+      {cutoffScore.toFixed(2)}.
+    </p>
+  );
+}
+
+function DiagnosisBody({ state }: { state: DiagnosisState }) {
+  if (state.status === "idle") {
+    return null;
+  }
+  if (state.status === "loading") {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Spinner className="size-5" />
+      </div>
+    );
+  }
+  if (state.status === "error" || !state.diagnosis) {
+    return (
+      <p className="text-muted-foreground text-sm">
+        The search index is not ready yet. Try again in a moment.
+      </p>
+    );
+  }
+
+  const { diagnosis } = state;
+  if (!diagnosis.isIndexed) {
+    return (
+      <p className="text-sm">
+        <span className="font-mono">{diagnosis.id}</span> is not in your indexed
+        stars. It may not be starred, or your starred list has not been
+        refreshed since.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      <RankSummary diagnosis={diagnosis} />
+      <Separator />
+      <div className="flex flex-col gap-1.5">
+        <span className="font-medium text-xs">Keywords</span>
+        <KeywordSummary diagnosis={diagnosis} />
+      </div>
+      <div className="flex flex-col gap-1.5">
+        <span className="font-medium text-xs">Indexed fields</span>
+        <FieldSummary diagnosis={diagnosis} />
+      </div>
+    </div>
+  );
+}
+
+export function SearchDiagnosticsDialog({
+  diagnose,
+}: {
+  diagnose: DiagnoseRepositoryFn;
+}) {
+  const [value, setValue] = useState("");
+  const [state, setState] = useState<DiagnosisState>({ status: "idle" });
+  const repositoryId = parseRepositoryId(value);
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!repositoryId) {
+      return;
+    }
+    setState({ status: "loading" });
+    diagnose(repositoryId)
+      .then((diagnosis) => {
+        setState({ status: "ready", diagnosis });
+      })
+      .catch(() => {
+        setState({ status: "error" });
+      });
+  };
+
+  return (
+    <Dialog>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DialogTrigger asChild>
+            <Button
+              className="size-8 shrink-0 text-muted-foreground"
+              size="icon"
+              variant="ghost"
+            >
+              <SearchX className="size-4" />
+            </Button>
+          </DialogTrigger>
+        </TooltipTrigger>
+        <TooltipContent>Missing a repository?</TooltipContent>
+      </Tooltip>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Why didn't it show up?</DialogTitle>
+          <DialogDescription>
+            Check how a starred repository scored against these keywords.
+          </DialogDescription>
+        </DialogHeader>
+        <form className="flex gap-2" onSubmit={handleSubmit}>
+          <Input
+            onChange={(event) => setValue(event.target.value)}
+            placeholder="owner/name"
+            value={value}
+          />
+          <Button disabled={!repositoryId} type="submit">
+            Check
+          </Button>
+        </form>
+        <DiagnosisBody state={state} />
+      </DialogContent>
+    </Dialog>
+  );
+}
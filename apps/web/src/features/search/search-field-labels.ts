@@ -0,0 +1,10 @@
+import type { FieldName } from "./repository-search-engine";
+
+export const FIELD_LABELS: Record<FieldName, string> = {
+  owner: "Owner",
+  name: "Name",
+  description: "Description",
+  readme: "README",
+  readmeHeadings: "README headings",
+  readmeIntro: "README intro",
+};
@@ -0,0 +1,128 @@
+import { ArrowDownUp, ChevronDown, X } from "lucide-react";
+import { type ReactNode, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+import {
+  DEFAULT_FILTER_SELECTION,
+  getPushedPresets,
+  getStarredPresets,
+  isDefaultFilterSelection,
+  type SearchFilterSelection,
+  SORT_OPTIONS,
+  STAR_PRESETS,
+} from "./search-filter-presets";
+
+type FilterOption = {
+  value: string;
+  label: string;
+};
+
+function FilterMenu({
+  options,
+  value,
+  onValueChange,
+  icon,
+}: {
+  options: FilterOption[];
+  value: string;
+  onValueChange: (value: string) => void;
+  icon?: ReactNode;
+}) {
+  const selected = options.find((option) => option.value === value);
+  const isActive = value !== options[0]?.value;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          className={cn(
+            "h-7 rounded-full px-3 text-xs",
+            isActive && "border-primary/40 bg-primary/10 text-primary"
+          )}
+          size="sm"
+          variant="outline"
+        >
+          {icon}
+          {selected?.label ?? options[0]?.label}
+          <ChevronDown className="size-3 opacity-60" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuRadioGroup onValueChange={onValueChange} value={value}>
+          {options.map((option) => (
+            <DropdownMenuRadioItem key={option.value} value={option.value}>
+              {option.label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+export function SearchFilterBar({
+  value,
+  onChange,
+}: {
+  value: SearchFilterSelection;
+  onChange: (value: SearchFilterSelection) => void;
+}) {
+  const { starredPresets, pushedPresets } = useMemo(() => {
+    const now = new Date();
+    return {
+      starredPresets: getStarredPresets(now),
+      pushedPresets: getPushedPresets(now),
+    };
+  }, []);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <FilterMenu
+        onValueChange={(stars) => onChange({ ...value, stars })}
+        options={STAR_PRESETS}
+        value={value.stars}
+      />
+      <FilterMenu
+        onValueChange={(starred) => onChange({ ...value, starred })}
+        options={starredPresets}
+        value={value.starred}
+      />
+      <FilterMenu
+        onValueChange={(pushed) => onChange({ ...value, pushed })}
+        options={pushedPresets}
+        value={value.pushed}
+      />
+      <FilterMenu
+        icon={<ArrowDownUp className="size-3" />}
+        onValueChange={(sort) =>
+          onChange({
+            ...value,
+            sort:
+              SORT_OPTIONS.find((option) => option.value === sort)?.value ??
+              DEFAULT_FILTER_SELECTION.sort,
+          })
+        }
+        options={SORT_OPTIONS}
+        value={value.sort}
+      />
+      {!isDefaultFilterSelection(value) && (
+        <Button
+          className="h-7 rounded-full px-2 text-muted-foreground text-xs"
+          onClick={() => onChange(DEFAULT_FILTER_SELECTION)}
+          size="sm"
+          variant="ghost"
+        >
+          <X className="size-3" />
+          Reset
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import type {
+  DateRange,
+  NumericRange,
+  SearchFilters,
+  SearchSort,
+} from "./search-filters";
+
+type FilterPreset<Range> = {
+  value: string;
+  label: string;
+  range?: Range;
+};
+
+export type SearchFilterSelection = {
+  stars: string;
+  starred: string;
+  pushed: string;
+  sort: SearchSort;
+};
+
+const ANY_VALUE = "any";
+const STARRED_YEAR_PRESET_COUNT = 4;
+const MONTHS_PER_YEAR = 12;
+
+export const DEFAULT_FILTER_SELECTION: SearchFilterSelection = {
+  stars: ANY_VALUE,
+  starred: ANY_VALUE,
+  pushed: ANY_VALUE,
+  sort: "relevance",
+};
+
+export const STAR_PRESETS: FilterPreset<NumericRange>[] = [
+  { value: ANY_VALUE, label: "Any stars" },
+  { value: "100", label: "100+ stars", range: { min: 100 } },
+  { value: "1k", label: "1k+ stars", range: { min: 1000 } },
+  { value: "10k", label: "10k+ stars", range: { min: 10_000 } },
+  { value: "under-100", label: "Under 100 stars", range: { max: 99 } },
+];
+
+export const SORT_OPTIONS: { value: SearchSort; label: string }[] = [
+  { value: "relevance", label: "Relevance" },
+  { value: "starredAt", label: "Recently starred" },
+  { value: "stars", label: "Most stars" },
+  { value: "pushedAt", label: "Recently pushed" },
+];
+
+function monthsAgo(now: Date, months: number): string {
+  const date = new Date(now);
+  date.setUTCMonth(date.getUTCMonth() - months);
+  return date.toISOString();
+}
+
+function yearRange(year: number): DateRange {
+  return {
+    from: new Date(Date.UTC(year, 0, 1)).toISOString(),
+    to: new Date(Date.UTC(year + 1, 0, 1)).toISOString(),
+  };
+}
+
+/** Recent windows plus the last few calendar years. */
+export function getStarredPresets(now: Date): FilterPreset<DateRange>[] {
+  const currentYear = now.getUTCFullYear();
+  const years = Array.from(
+    { length: STARRED_YEAR_PRESET_COUNT },
+    (_, index) => currentYear - index
+  );
+  return [
+    { value: ANY_VALUE, label: "Starred any time" },
+    {
+      value: "last-month",
+      label: "Starred in the last month",
+      range: { from: monthsAgo(now, 1) },
+    },
+    {
+      value: "last-year",
+      label: "Starred in the last year",
+      range: { from: monthsAgo(now, MONTHS_PER_YEAR) },
+    },
+    ...years.map((year) => ({
+      value: String(year),
+      label: `Starred in ${year}`,
+      range: yearRange(year),
+    })),
+  ];
+}
+
+export function getPushedPresets(now: Date): FilterPreset<DateRange>[] {
+  return [
+    { value: ANY_VALUE, label: "Pushed any time" },
+    {
+      value: "last-month",
+      label: "Pushed in the last month",
+      range: { from: monthsAgo(now, 1) },
+    },
+    {
+      value: "last-year",
+      label: "Pushed in the last year",
+      range: { from: monthsAgo(now, MONTHS_PER_YEAR) },
+    },
+    {
+      value: "stale",
+      label: "Not pushed for a year",
+      range: { to: monthsAgo(now, MONTHS_PER_YEAR) },
+    },
+  ];
+}
+
+export function isDefaultFilterSelection(
+  selection: SearchFilterSelection
+): boolean {
+  return (
+    selection.stars === ANY_VALUE &&
+    selection.starred === ANY_VALUE &&
+    selection.pushed === ANY_VALUE &&
+    selection.sort === DEFAULT_FILTER_SELECTION.sort
+  );
+}
+
+/**
+ * Turns the filter bar selection into engine filters, resolving relative
+ * windows such as "last year" against `now`. Returns undefined when nothing
+ * is filtered.
+ */
+export function buildSearchFilters(
+  selection: SearchFilterSelection,
+  now: Date = new Date()
+): SearchFilters | undefined {
+  const stargazerCount = STAR_PRESETS.find(
+    (preset) => preset.value === selection.stars
+  )?.range;
+  const starredAt = getStarredPresets(now).find(
+    (preset) => preset.value === selection.starred
+  )?.range;
+  const pushedAt = getPushedPresets(now).find(
+    (preset) => preset.value === selection.pushed
+  )?.range;
+
+  if (!(stargazerCount || starredAt || pushedAt)) {
+    return;
+  }
+  return { stargazerCount, starredAt, pushedAt };
+}
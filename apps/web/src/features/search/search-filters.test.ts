@@ -0,0 +1,158 @@
+import type { StarredRepository } from "@i-starred-it/api/services/github";
+import { describe, expect, it } from "vitest";
+import { buildSearchFilters } from "./search-filter-presets";
+import { compareBySort, matchesSearchFilters } from "./search-filters";
+
+const createRepository = (
+  overrides: Partial<StarredRepository> = {}
+): StarredRepository => ({
+  owner: "owner",
+  name: "name",
+  description: null,
+  readme: null,
+  stargazerCount: 1500,
+  forkCount: 20,
+  pushedAt: "2024-06-01T00:00:00Z",
+  updatedAt: "2024-06-01T00:00:00Z",
+  starredAt: "2023-03-15T00:00:00Z",
+  ...overrides,
+});
+
+const STAR_THRESHOLD = 1000;
+const LOW_STAR_COUNT = 10;
+const HIGH_STAR_COUNT = 50_000;
+const NOW = new Date("2025-02-10T00:00:00Z");
+
+describe("matchesSearchFilters", () => {
+  const repository = createRepository();
+
+  it("passes everything without filters", () => {
+    expect(matchesSearchFilters(repository)).toBe(true);
+    expect(matchesSearchFilters(repository, {})).toBe(true);
+  });
+
+  it("applies inclusive numeric bounds", () => {
+    expect(
+      matchesSearchFilters(repository, {
+        stargazerCount: { min: STAR_THRESHOLD },
+      })
+    ).toBe(true);
+    expect(
+      matchesSearchFilters(repository, {
+        stargazerCount: { max: STAR_THRESHOLD },
+      })
+    ).toBe(false);
+    expect(
+      matchesSearchFilters(repository, {
+        forkCount: { min: repository.forkCount, max: repository.forkCount },
+      })
+    ).toBe(true);
+  });
+
+  it("treats date ranges as from-inclusive and to-exclusive", () => {
+    const starredIn2023 = {
+      starredAt: { from: "2023-01-01", to: "2024-01-01" },
+    };
+    expect(matchesSearchFilters(repository, starredIn2023)).toBe(true);
+    expect(
+      matchesSearchFilters(
+        createRepository({ starredAt: "2024-01-01T00:00:00Z" }),
+        starredIn2023
+      )
+    ).toBe(false);
+    expect(
+      matchesSearchFilters(repository, {
+        pushedAt: { from: "2024-06-01T00:00:00Z" },
+      })
+    ).toBe(true);
+  });
+
+  it("requires every filter to match", () => {
+    expect(
+      matchesSearchFilters(repository, {
+        stargazerCount: { min: STAR_THRESHOLD },
+        pushedAt: { to: "2024-01-01" },
+      })
+    ).toBe(false);
+  });
+});
+
+describe("compareBySort", () => {
+  const older = {
+    id: "a/older",
+    score: 2,
+    repository: createRepository({
+      stargazerCount: HIGH_STAR_COUNT,
+      starredAt: "2020-01-01T00:00:00Z",
+      pushedAt: "2021-01-01T00:00:00Z",
+    }),
+  };
+  const newer = {
+    id: "b/newer",
+    score: 1,
+    repository: createRepository({
+      stargazerCount: LOW_STAR_COUNT,
+      starredAt: "2024-01-01T00:00:00Z",
+      pushedAt: "2024-01-01T00:00:00Z",
+    }),
+  };
+  const sortIds = (sort: Parameters<typeof compareBySort>[0]) =>
+    [newer, older].sort(compareBySort(sort)).map((entry) => entry.id);
+
+  it("sorts by score for relevance", () => {
+    expect(sortIds("relevance")).toEqual(["a/older", "b/newer"]);
+    expect(sortIds(undefined)).toEqual(["a/older", "b/newer"]);
+  });
+
+  it("sorts by metadata for the other modes", () => {
+    expect(sortIds("starredAt")).toEqual(["b/newer", "a/older"]);
+    expect(sortIds("stars")).toEqual(["a/older", "b/newer"]);
+    expect(sortIds("pushedAt")).toEqual(["b/newer", "a/older"]);
+  });
+
+  it("falls back to the score on ties", () => {
+    const tied = { ...newer, repository: older.repository };
+    expect(
+      [tied, older].sort(compareBySort("stars")).map((entry) => entry.id)
+    ).toEqual(["a/older", "b/newer"]);
+  });
+
+  it("falls back to the id when scores tie too", () => {
+    const tied = { ...older, id: "c/tied" };
+    expect(
+      [tied, older].sort(compareBySort("relevance")).map((entry) => entry.id)
+    ).toEqual(["a/older", "c/tied"]);
+  });
+});
+
+describe("buildSearchFilters", () => {
+  it("returns undefined when nothing is filtered", () => {
+    expect(
+      buildSearchFilters(
+        { stars: "any", starred: "any", pushed: "any", sort: "stars" },
+        NOW
+      )
+    ).toBeUndefined();
+  });
+
+  it("resolves presets against the current date", () => {
+    expect(
+      buildSearchFilters(
+        {
+          stars: "1k",
+          starred: "2023",
+          pushed: "last-year",
+          sort: "relevance",
+        },
+        NOW
+      )
+    ).toEqual({
+      stargazerCount: { min: STAR_THRESHOLD },
+      starredAt: {
+        from: "2023-01-01T00:00:00.000Z",
+        to: "2024-01-01T00:00:00.000Z",
+      },
+      pushedAt: { from: "2024-02-10T00:00:00.000Z" },
+    });
+  });
+});
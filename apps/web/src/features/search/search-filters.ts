@@ -0,0 +1,116 @@
+import type { StarredRepository } from "@i-starred-it/api/services/github";
+
+/** Inclusive bounds; either side may be left open. */
+export type NumericRange = {
+  min?: number;
+  max?: number;
+};
+
+/**
+ * ISO 8601 bounds, `from` inclusive and `to` exclusive, so "starred in 2023"
+ * is `{ from: "2023-01-01", to: "2024-01-01" }`. Strings rather than `Date`s
+ * keep options structured-clone safe across the worker boundary.
+ */
+export type DateRange = {
+  from?: string;
+  to?: string;
+};
+
+export type SearchFilters = {
+  stargazerCount?: NumericRange;
+  forkCount?: NumericRange;
+  pushedAt?: DateRange;
+  updatedAt?: DateRange;
+  starredAt?: DateRange;
+};
+
+export type SearchSort = "relevance" | "starredAt" | "stars" | "pushedAt";
+
+type RankedRepository = {
+  id: string;
+  repository: StarredRepository;
+  score: number;
+};
+
+const NUMERIC_FILTER_FIELDS = ["stargazerCount", "forkCount"] as const;
+const DATE_FILTER_FIELDS = ["pushedAt", "updatedAt", "starredAt"] as const;
+
+function isInNumericRange(value: number, range?: NumericRange): boolean {
+  if (!range) {
+    return true;
+  }
+  if (range.min !== undefined && value < range.min) {
+    return false;
+  }
+  return range.max === undefined || value <= range.max;
+}
+
+function isInDateRange(value: string, range?: DateRange): boolean {
+  if (!range) {
+    return true;
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    return false;
+  }
+  if (range.from !== undefined && time < Date.parse(range.from)) {
+    return false;
+  }
+  return range.to === undefined || time < Date.parse(range.to);
+}
+
+export function matchesSearchFilters(
+  repository: StarredRepository,
+  filters?: SearchFilters
+): boolean {
+  if (!filters) {
+    return true;
+  }
+  return (
+    NUMERIC_FILTER_FIELDS.every((field) =>
+      isInNumericRange(repository[field], filters[field])
+    ) &&
+    DATE_FILTER_FIELDS.every((field) =>
+      isInDateRange(repository[field], filters[field])
+    )
+  );
+}
+
+function compareDates(left: string, right: string): number {
+  return (Date.parse(right) || 0) - (Date.parse(left) || 0);
+}
+
+function compareIds(left: RankedRepository, right: RankedRepository) {
+  if (left.id === right.id) {
+    return 0;
+  }
+  return left.id < right.id ? -1 : 1;
+}
+
+/**
+ * Orders ranked repositories for `sort`, falling back to the score and then
+ * the id, so the order is total and pages of results never overlap.
+ */
+export function compareBySort(
+  sort: SearchSort = "relevance"
+): (left: RankedRepository, right: RankedRepository) => number {
+  const byScore = (left: RankedRepository, right: RankedRepository) =>
+    right.score - left.score || compareIds(left, right);
+
+  switch (sort) {
+    case "starredAt":
+      return (left, right) =>
+        compareDates(left.repository.starredAt, right.repository.starredAt) ||
+        byScore(left, right);
+    case "stars":
+      return (left, right) =>
+        right.repository.stargazerCount - left.repository.stargazerCount ||
+        byScore(left, right);
+    case "pushedAt":
+      return (left, right) =>
+        compareDates(left.repository.pushedAt, right.repository.pushedAt) ||
+        byScore(left, right);
+    default:
+      return byScore;
+  }
+}
@@ -1,4 +1,11 @@
-import { ChevronRight, Quote, Target, ThumbsUp, Trash2 } from "lucide-react";
+import {
+  ChevronDown,
+  ChevronRight,
+  History,
+  Quote,
+  ThumbsUp,
+  Trash2,
+} from "lucide-react";
 import { AnimatePresence, motion } from "motion/react";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
@@ -10,6 +17,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
+import { Spinner } from "@/components/ui/spinner";
 import {
   Tooltip,
   TooltipContent,
@@ -17,7 +25,22 @@ import {
 } from "@/components/ui/tooltip";
 import { cn } from "@/lib/utils";
 import type { RepositorySearchResult } from "./repository-search-engine";
+import { ScoreExplanationPopover } from "./score-explanation-popover";
+import {
+  type DiagnoseRepositoryFn,
+  SearchDiagnosticsDialog,
+} from "./search-diagnostics-dialog";
+import {
+  describePersonalMatch,
+  type PersonalMatch,
+} from "./search-personalization";
+import { type SearchSnippet, toSnippetSegments } from "./search-snippets";
+import { SimilarRepositoriesDialog } from "./similar-repositories-dialog";
 import { useRepositoryLike } from "./use-repository-like";
+import type {
+  RepositoryExplainFn,
+  RepositorySimilarFn,
+} from "./use-repository-search";
 import type { SearchHistoryItem as HistoryItem } from "./use-search-history";
 
 const MAX_PREVIEW_TOKENS = 5;
@@ -38,13 +61,64 @@ type SearchHistoryItemProps = {
   likedReposSet: Set<string>;
   onDelete: (id: string) => void;
   isSearchReady?: boolean;
+  explain?: RepositoryExplainFn;
+  diagnose?: DiagnoseRepositoryFn;
+  findSimilar?: RepositorySimilarFn;
+  /** Set when more results follow; shows a "Show more results" control. */
+  onShowMoreResults?: () => void;
+  hasMoreResults?: boolean;
+  isLoadingMoreResults?: boolean;
 };
 
+function SnippetText({ snippet }: { snippet: SearchSnippet }) {
+  return (
+    <p className="line-clamp-2 border-primary/20 border-l-2 pl-2 text-muted-foreground text-xs">
+      {toSnippetSegments(snippet).map((segment) =>
+        segment.isHighlighted ? (
+          <mark
+            className="rounded-sm bg-primary/15 px-0.5 text-foreground"
+            key={segment.start}
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={segment.start}>{segment.text}</span>
+        )
+      )}
+    </p>
+  );
+}
+
+function PersonalMatchBadge({ match }: { match: PersonalMatch }) {
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span
+          className={cn(
+            "flex cursor-help items-center gap-1",
+            "rounded-md",
+            "bg-muted",
+            "px-1.5 py-0.5",
+            "text-muted-foreground text-xs"
+          )}
+        >
+          <History className="size-3" />
+          {match.kind === "liked" ? "Picked before" : "Similar to a pick"}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent>{describePersonalMatch(match)}</TooltipContent>
+    </Tooltip>
+  );
+}
+
 function SearchResultItem({
   result,
   rank,
   searchQueryId,
   allSearchResults,
+  keywords,
+  explain,
+  findSimilar,
   isLiked = false,
   showTokens = true,
 }: {
@@ -52,10 +126,13 @@ function SearchResultItem({
   rank: number;
   searchQueryId: string;
   allSearchResults: RepositorySearchResult[];
+  keywords: string[];
+  explain?: RepositoryExplainFn;
+  findSimilar?: RepositorySimilarFn;
   isLiked?: boolean;
   showTokens?: boolean;
 }) {
-  const { repository, matchedTokens, score } = result;
+  const { repository, matchedTokens, score, snippets, personalMatch } = result;
   const repoUrl = `https://github.com/${repository.owner}/${repository.name}`;
   const { like, unlike, isLiking, isUnliking } = useRepositoryLike();
 
@@ -106,21 +183,26 @@ function SearchResultItem({
                 {repository.owner}/{repository.name}
               </span>
             </a>
-            <Tooltip>
-              <TooltipTrigger asChild>
-                <span className="flex items-center gap-1 rounded-md bg-primary/10 px-1.5 py-0.5 font-mono text-primary text-xs">
-                  <Target className="size-3 text-primary/60" />
-                  {score.toFixed(2)}
-                </span>
-              </TooltipTrigger>
-              <TooltipContent>Relevance score</TooltipContent>
-            </Tooltip>
+            <ScoreExplanationPopover
+              explain={explain}
+              id={result.id}
+              keywords={keywords}
+              score={score}
+            />
+            {personalMatch && <PersonalMatchBadge match={personalMatch} />}
           </div>
           {repository.description ? (
             <p className="line-clamp-2 text-muted-foreground text-xs">
               {repository.description}
             </p>
           ) : null}
+          {snippets.length > 0 && (
+            <div className="flex flex-col gap-1">
+              {snippets.map((snippet) => (
+                <SnippetText key={snippet.text} snippet={snippet} />
+              ))}
+            </div>
+          )}
           {showTokens && (
             <div className="flex flex-wrap gap-1.5">
               {matchedTokens.slice(0, MAX_PREVIEW_TOKENS).map((token) => (
@@ -139,6 +221,9 @@ function SearchResultItem({
             </div>
           )}
         </div>
+        {findSimilar && (
+          <SimilarRepositoriesDialog findSimilar={findSimilar} id={result.id} />
+        )}
         <Tooltip>
           <TooltipTrigger asChild>
             <Button
@@ -170,6 +255,12 @@ export function SearchHistoryItem({
   onDelete,
   isInitiallyExpanded = false,
   isSearchReady = true,
+  explain,
+  diagnose,
+  findSimilar,
+  onShowMoreResults,
+  hasMoreResults = false,
+  isLoadingMoreResults = false,
 }: SearchHistoryItemProps & { isInitiallyExpanded?: boolean }) {
   const [isExpanded, setIsExpanded] = useState(isInitiallyExpanded);
 
@@ -274,6 +365,7 @@ export function SearchHistoryItem({
               </CardDescription>
             </div>
           </div>
+          {diagnose && <SearchDiagnosticsDialog diagnose={diagnose} />}
           <Tooltip>
             <TooltipTrigger asChild>
               <Button
@@ -324,9 +416,12 @@ export function SearchHistoryItem({
             {/* First item always visible - no animation */}
             <SearchResultItem
               allSearchResults={searchResults}
+              explain={explain}
+              findSimilar={findSimilar}
               isLiked={likedReposSet.has(
                 `${searchResults[0].repository.owner}/${searchResults[0].repository.name}`
               )}
+              keywords={item.keywords}
               rank={1}
               result={searchResults[0]}
               searchQueryId={item.id}
@@ -381,9 +476,12 @@ export function SearchHistoryItem({
                       <Separator className="mb-3" />
                       <SearchResultItem
                         allSearchResults={searchResults}
+                        explain={explain}
+                        findSimilar={findSimilar}
                         isLiked={likedReposSet.has(
                           `${result.repository.owner}/${result.repository.name}`
                         )}
+                        keywords={item.keywords}
                         rank={index + 2}
                         result={result}
                         searchQueryId={item.id}
@@ -393,6 +491,24 @@ export function SearchHistoryItem({
                   </motion.div>
                 ))}
             </AnimatePresence>
+
+            {isExpanded && hasMoreResults && onShowMoreResults && (
+              <div className="mt-3 flex justify-center">
+                <Button
+                  disabled={isLoadingMoreResults}
+                  onClick={onShowMoreResults}
+                  size="sm"
+                  variant="ghost"
+                >
+                  {isLoadingMoreResults ? (
+                    <Spinner className="size-4" />
+                  ) : (
+                    <ChevronDown className="size-4" />
+                  )}
+                  Show more results
+                </Button>
+              </div>
+            )}
           </div>
         </CardContent>
       )}
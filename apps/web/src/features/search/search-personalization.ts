@@ -0,0 +1,50 @@
+/**
+ * Why a repository was boosted for this user: it was liked as the answer to
+ * an earlier search, or it shares enough vocabulary with one that was.
+ */
+export type PersonalMatch =
+  | { kind: "liked"; likeCount: number }
+  | { kind: "similar"; likedId: string; similarity: number };
+
+export type PersonalizationConfig = {
+  /** Boost for repositories the user liked before; 0 disables. */
+  likedWeight: number;
+  /** Boost for a repository identical to a liked one, scaled by similarity. */
+  similarWeight: number;
+  /** Cosine similarity below which a repository is not considered similar. */
+  minSimilarity: number;
+};
+
+/**
+ * Counts likes per repository id, lower-cased because likes may have been
+ * recorded with a different case than the one GitHub returns today.
+ */
+export function countLikes(likedIds: Iterable<string>): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const id of likedIds) {
+    const key = id.toLowerCase();
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+}
+
+export function getPersonalBoost(
+  match: PersonalMatch | null,
+  config: PersonalizationConfig
+): number {
+  if (!match) {
+    return 0;
+  }
+  return match.kind === "liked"
+    ? config.likedWeight
+    : config.similarWeight * match.similarity;
+}
+
+export function describePersonalMatch(match: PersonalMatch): string {
+  if (match.kind === "liked") {
+    return match.likeCount > 1
+      ? `You picked this ${match.likeCount} times before`
+      : "You picked this before";
+  }
+  return `Similar to ${match.likedId}, which you picked before`;
+}
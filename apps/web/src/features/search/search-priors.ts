@@ -0,0 +1,98 @@
+import type { StarredRepository } from "@i-starred-it/api/services/github";
+import {
+  getPersonalBoost,
+  type PersonalizationConfig,
+  type PersonalMatch,
+} from "./search-personalization";
+
+/**
+ * How priors are combined with the text score: `multiply` scales it by
+ * `(1 + boosts) * (1 - penalty)`, so priors only reorder repositories that
+ * matched; `add` adds the boosts and subtracts the penalty; `none` ranks by
+ * text alone.
+ */
+export type PriorMode = "none" | "multiply" | "add";
+
+export type PriorConfig = PersonalizationConfig & {
+  mode: PriorMode;
+  /** Boost per order of magnitude of `stargazerCount`. */
+  starWeight: number;
+  /** Boost for a repository starred just now, halving every half-life. */
+  starredAtWeight: number;
+  starredAtHalfLifeDays: number;
+  /** Penalty for repositories not pushed to for `staleAfterDays`; 0 disables. */
+  stalePenalty: number;
+  staleAfterDays: number;
+};
+
+export type PriorBreakdown = {
+  starBoost: number;
+  recencyBoost: number;
+  stalePenalty: number;
+  /** Boost from the user's like history; see `PersonalMatch`. */
+  personalBoost: number;
+};
+
+const DAY_IN_MS = 86_400_000;
+const DECAY_PER_HALF_LIFE = 0.5;
+const NO_PRIORS: PriorBreakdown = {
+  starBoost: 0,
+  recencyBoost: 0,
+  stalePenalty: 0,
+  personalBoost: 0,
+};
+
+function getAgeInDays(date: string, now: number): number | null {
+  const time = Date.parse(date);
+  if (Number.isNaN(time)) {
+    return null;
+  }
+  return Math.max(0, (now - time) / DAY_IN_MS);
+}
+
+export function computePriors(
+  repository: StarredRepository,
+  config: PriorConfig,
+  now: number,
+  personalMatch: PersonalMatch | null = null
+): PriorBreakdown {
+  if (config.mode === "none") {
+    return NO_PRIORS;
+  }
+
+  const starBoost =
+    config.starWeight * Math.log10(1 + Math.max(0, repository.stargazerCount));
+
+  const starredAge = getAgeInDays(repository.starredAt, now);
+  const recencyBoost =
+    starredAge === null || config.starredAtHalfLifeDays <= 0
+      ? 0
+      : config.starredAtWeight *
+        DECAY_PER_HALF_LIFE ** (starredAge / config.starredAtHalfLifeDays);
+
+  const pushedAge = getAgeInDays(repository.pushedAt, now);
+  const isStale = pushedAge !== null && pushedAge > config.staleAfterDays;
+
+  return {
+    starBoost,
+    recencyBoost,
+    stalePenalty: isStale ? config.stalePenalty : 0,
+    personalBoost: getPersonalBoost(personalMatch, config),
+  };
+}
+
+export function applyPriors(
+  textScore: number,
+  priors: PriorBreakdown,
+  mode: PriorMode
+): number {
+  const boost = priors.starBoost + priors.recencyBoost + priors.personalBoost;
+  switch (mode) {
+    case "multiply":
+      return textScore * (1 + boost) * Math.max(0, 1 - priors.stalePenalty);
+    case "add":
+      return textScore + boost - priors.stalePenalty;
+    default:
+      return textScore;
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { parseSearchQuery } from "./search-query-parser";
+
+describe("parseSearchQuery", () => {
+  it("parses plain terms as optional clauses", () => {
+    expect(parseSearchQuery("react router").clauses).toEqual([
+      { text: "react", occur: "should", field: null, isPhrase: false },
+      { text: "router", occur: "should", field: null, isPhrase: false },
+    ]);
+  });
+
+  it("parses required and excluded terms", () => {
+    const { clauses } = parseSearchQuery("+wasm -deprecated");
+    expect(clauses.map((clause) => clause.occur)).toEqual(["must", "mustNot"]);
+    expect(clauses.map((clause) => clause.text)).toEqual([
+      "wasm",
+      "deprecated",
+    ]);
+  });
+
+  it("keeps quoted phrases together", () => {
+    expect(parseSearchQuery('"state management" hooks').clauses[0]).toEqual({
+      text: "state management",
+      occur: "should",
+      field: null,
+      isPhrase: true,
+    });
+  });
+
+  it("parses field scopes and aliases", () => {
+    const { clauses } = parseSearchQuery(
+      "owner:vercel repo:router readme:wasm"
+    );
+    expect(clauses.map((clause) => clause.field)).toEqual([
+      "owner",
+      "name",
+      "readme",
+    ]);
+  });
+
+  it("combines prefixes with scoped phrases", () => {
+    expect(parseSearchQuery('-readme:"not maintained"').clauses[0]).toEqual({
+      text: "not maintained",
+      occur: "mustNot",
+      field: "readme",
+      isPhrase: true,
+    });
+  });
+
+  it("treats unknown field prefixes as text", () => {
+    expect(parseSearchQuery("lang:rust").clauses[0]).toEqual({
+      text: "lang:rust",
+      occur: "should",
+      field: null,
+      isPhrase: false,
+    });
+  });
+
+  it("runs an unterminated quote to the end of the input", () => {
+    expect(parseSearchQuery('"edge runtime').clauses[0]?.text).toBe(
+      "edge runtime"
+    );
+  });
+
+  it("ignores lone operators and empty phrases", () => {
+    expect(parseSearchQuery('- + "" owner:').clauses).toEqual([
+      { text: "-", occur: "should", field: null, isPhrase: false },
+      { text: "+", occur: "should", field: null, isPhrase: false },
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+export type QueryField = "owner" | "name" | "description" | "readme";
+
+export type QueryOccurrence = "should" | "must" | "mustNot";
+
+export type QueryClause = {
+  text: string;
+  occur: QueryOccurrence;
+  field: QueryField | null;
+  isPhrase: boolean;
+};
+
+export type ParsedQuery = {
+  clauses: QueryClause[];
+};
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+  owner: "owner",
+  user: "owner",
+  org: "owner",
+  name: "name",
+  repo: "name",
+  description: "description",
+  desc: "description",
+  readme: "readme",
+};
+
+const FIELD_PREFIX_PATTERN = /^([a-z]+):/i;
+const WHITESPACE_PATTERN = /\s/;
+
+function readOccurrence(value: string): {
+  occur: QueryOccurrence;
+  rest: string;
+} {
+  if (value.length > 1 && value.startsWith("+")) {
+    return { occur: "must", rest: value.slice(1) };
+  }
+  if (value.length > 1 && value.startsWith("-")) {
+    return { occur: "mustNot", rest: value.slice(1) };
+  }
+  return { occur: "should", rest: value };
+}
+
+function readField(value: string): { field: QueryField | null; rest: string } {
+  const match = FIELD_PREFIX_PATTERN.exec(value);
+  if (!match) {
+    return { field: null, rest: value };
+  }
+  const field = FIELD_ALIASES[match[1].toLowerCase()];
+  if (!field) {
+    return { field: null, rest: value };
+  }
+  return { field, rest: value.slice(match[0].length) };
+}
+
+/**
+ * Splits the input on whitespace while keeping quoted phrases together. An
+ * unterminated quote runs to the end of the input.
+ */
+function splitQueryParts(input: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let isQuoted = false;
+
+  for (const char of input) {
+    if (char === '"') {
+      isQuoted = !isQuoted;
+      current += char;
+      continue;
+    }
+    if (!isQuoted && WHITESPACE_PATTERN.test(char)) {
+      if (current) {
+        parts.push(current);
+      }
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+
+  if (current) {
+    parts.push(current);
+  }
+  return parts;
+}
+
+/**
+ * Parses the power-user query syntax:
+ *
+ * - `"exact phrase"` matches consecutive words
+ * - `+term` is required and `-term` excludes matching repositories
+ * - `owner:`, `name:`, `description:` and `readme:` scope a term to a field
+ *
+ * Prefixes combine in that order, e.g. `-readme:"deprecated package"`.
+ * Unknown field prefixes are kept as plain text.
+ */
+export function parseSearchQuery(input: string): ParsedQuery {
+  const clauses: QueryClause[] = [];
+
+  for (const part of splitQueryParts(input)) {
+    const { occur, rest: afterOccurrence } = readOccurrence(part);
+    const { field, rest } = readField(afterOccurrence);
+    const isPhrase = rest.startsWith('"');
+    const text = rest.replaceAll('"', "").trim();
+    if (!text) {
+      continue;
+    }
+    clauses.push({ text, occur, field, isPhrase });
+  }
+
+  return { clauses };
+}
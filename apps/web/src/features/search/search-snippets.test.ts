@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { defaultAnalyzer } from "./search-analyzer";
+import {
+  buildSnippets,
+  type SearchSnippet,
+  toSnippetSegments,
+} from "./search-snippets";
+
+const OPTIONS = { maxSnippets: 2, maxLength: 200 };
+
+const highlightedWords = (snippet: SearchSnippet | undefined) =>
+  snippet?.highlights.map(({ start, end }) => snippet.text.slice(start, end));
+
+describe("buildSnippets", () => {
+  const readme = [
+    "Zustand is a small state library.",
+    "It works with React and React Native.",
+    "State updates are batched in React 18.",
+    "Devtools are optional.",
+  ].join(" ");
+
+  it("returns the passages with the most matched tokens first", () => {
+    const snippets = buildSnippets(
+      readme,
+      new Set(["react", "nativ"]),
+      defaultAnalyzer,
+      OPTIONS
+    );
+    expect(snippets.map((snippet) => snippet.text)).toEqual([
+      "It works with React and React Native.",
+      "State updates are batched in React 18.",
+    ]);
+  });
+
+  it("highlights whole words matched through derived tokens", () => {
+    const [snippet] = buildSnippets(
+      readme,
+      new Set(["updat"]),
+      defaultAnalyzer,
+      OPTIONS
+    );
+    expect(highlightedWords(snippet)).toEqual(["updates"]);
+  });
+
+  it("splits passages on line breaks but not on dots inside names", () => {
+    const [snippet] = buildSnippets(
+      "# Intro\nBuilt on next.js and vite.",
+      new Set(["nextjs"]),
+      defaultAnalyzer,
+      OPTIONS
+    );
+    expect(snippet?.text).toBe("Built on next.js and vite.");
+    expect(highlightedWords(snippet)).toEqual(["next.js"]);
+  });
+
+  it("clips long passages around the first highlight", () => {
+    const maxLength = 60;
+    const filler = "lorem ipsum ".repeat(maxLength);
+    const [snippet] = buildSnippets(
+      `${filler}the router lives here ${filler}`,
+      new Set(["router"]),
+      defaultAnalyzer,
+      { ...OPTIONS, maxLength }
+    );
+    expect(snippet?.text.startsWith("…")).toBe(true);
+    expect(snippet?.text.endsWith("…")).toBe(true);
+    expect(highlightedWords(snippet)).toEqual(["router"]);
+  });
+
+  it("highlights CJK runs containing a matched bigram", () => {
+    const [snippet] = buildSnippets(
+      "토스의 프론트엔드 라이브러리 모음",
+      new Set(["라이"]),
+      defaultAnalyzer,
+      OPTIONS
+    );
+    expect(highlightedWords(snippet)).toEqual(["라이브러리"]);
+  });
+
+  it("returns nothing without matches", () => {
+    expect(
+      buildSnippets(readme, new Set(["vue"]), defaultAnalyzer, OPTIONS)
+    ).toEqual([]);
+  });
+});
+
+describe("toSnippetSegments", () => {
+  it("splits the text around highlights", () => {
+    expect(
+      toSnippetSegments({
+        text: "use the router",
+        highlights: [{ start: 8, end: 14 }],
+      })
+    ).toEqual([
+      { text: "use the ", start: 0, isHighlighted: false },
+      { text: "router", start: 8, isHighlighted: true },
+    ]);
+  });
+});
@@ -0,0 +1,188 @@
+import type { Analyzer } from "./search-analyzer";
+
+/** UTF-16 offsets into `SearchSnippet.text`, end exclusive. */
+export type SnippetHighlight = {
+  start: number;
+  end: number;
+};
+
+export type SearchSnippet = {
+  text: string;
+  highlights: SnippetHighlight[];
+};
+
+type SnippetOptions = {
+  maxSnippets: number;
+  maxLength: number;
+};
+
+type ScoredPassage = {
+  text: string;
+  position: number;
+  matchCount: number;
+};
+
+// Sentence ends followed by whitespace, CJK full stops, or line breaks. Dots
+// inside names such as `next.js` are not followed by whitespace.
+const PASSAGE_BREAK_PATTERN = /(?<=[.!?])\s+|(?<=[。！？])|\n+/u;
+const WORD_SPAN_PATTERN = /[\p{L}\p{N}\p{M}]+(?:[-_.'][\p{L}\p{N}\p{M}]+)*/gu;
+const WHITESPACE_PATTERN = /\s/;
+const ELLIPSIS = "…";
+// Share of the snippet shown before the first highlight when clipping.
+const LEADING_CONTEXT_RATIO = 0.25;
+
+function countMatches(
+  passage: string,
+  matchedTokens: Set<string>,
+  analyzer: Analyzer
+): number {
+  const found = new Set<string>();
+  for (const { text } of analyzer.analyze(passage)) {
+    if (matchedTokens.has(text)) {
+      found.add(text);
+    }
+  }
+  return found.size;
+}
+
+/**
+ * Highlights whole words whose analyzed tokens, including stems and
+ * identifier parts, were matched by the query.
+ */
+function findHighlights(
+  passage: string,
+  matchedTokens: Set<string>,
+  analyzer: Analyzer
+): SnippetHighlight[] {
+  const highlights: SnippetHighlight[] = [];
+  for (const match of passage.matchAll(WORD_SPAN_PATTERN)) {
+    const isMatch = analyzer
+      .analyze(match[0])
+      .some((token) => matchedTokens.has(token.text));
+    if (isMatch) {
+      highlights.push({
+        start: match.index,
+        end: match.index + match[0].length,
+      });
+    }
+  }
+  return highlights;
+}
+
+function findWordStart(text: string, from: number, limit: number): number {
+  for (let index = from; index < limit; index++) {
+    if (WHITESPACE_PATTERN.test(text[index])) {
+      return index + 1;
+    }
+  }
+  return from;
+}
+
+/**
+ * Cuts a long passage down to `maxLength` characters around its first
+ * highlight, shifting the highlights to match.
+ */
+function clipPassage(snippet: SearchSnippet, maxLength: number): SearchSnippet {
+  const { text, highlights } = snippet;
+  if (text.length <= maxLength) {
+    return snippet;
+  }
+
+  const firstStart = highlights[0]?.start ?? 0;
+  const contextStart = Math.max(
+    0,
+    firstStart - Math.floor(maxLength * LEADING_CONTEXT_RATIO)
+  );
+  const start =
+    contextStart > 0 ? findWordStart(text, contextStart, firstStart) : 0;
+  const end = Math.min(text.length, start + maxLength);
+  const prefix = start > 0 ? ELLIPSIS : "";
+  const suffix = end < text.length ? ELLIPSIS : "";
+  const shift = prefix.length - start;
+
+  return {
+    text: `${prefix}${text.slice(start, end).trimEnd()}${suffix}`,
+    highlights: highlights
+      .filter((highlight) => highlight.start >= start && highlight.end <= end)
+      .map((highlight) => ({
+        start: highlight.start + shift,
+        end: highlight.end + shift,
+      })),
+  };
+}
+
+/**
+ * Picks the passages of `text` that contain the most distinct matched tokens
+ * and returns them with the offsets of the matching words.
+ */
+export function buildSnippets(
+  text: string,
+  matchedTokens: Set<string>,
+  analyzer: Analyzer,
+  { maxSnippets, maxLength }: SnippetOptions
+): SearchSnippet[] {
+  if (!text || matchedTokens.size === 0) {
+    return [];
+  }
+
+  const passages: ScoredPassage[] = [];
+  for (const [position, raw] of text.split(PASSAGE_BREAK_PATTERN).entries()) {
+    const passage = raw.trim();
+    const matchCount = passage
+      ? countMatches(passage, matchedTokens, analyzer)
+      : 0;
+    if (matchCount > 0) {
+      passages.push({ text: passage, position, matchCount });
+    }
+  }
+
+  return passages
+    .sort((a, b) => b.matchCount - a.matchCount || a.position - b.position)
+    .slice(0, maxSnippets)
+    .map((passage) =>
+      clipPassage(
+        {
+          text: passage.text,
+          highlights: findHighlights(passage.text, matchedTokens, analyzer),
+        },
+        maxLength
+      )
+    );
+}
+
+export type SnippetSegment = {
+  text: string;
+  start: number;
+  isHighlighted: boolean;
+};
+
+/**
+ * Splits a snippet into plain and highlighted runs for rendering.
+ */
+export function toSnippetSegments(snippet: SearchSnippet): SnippetSegment[] {
+  const segments: SnippetSegment[] = [];
+  let cursor = 0;
+  for (const { start, end } of snippet.highlights) {
+    if (start > cursor) {
+      segments.push({
+        text: snippet.text.slice(cursor, start),
+        start: cursor,
+        isHighlighted: false,
+      });
+    }
+    segments.push({
+      text: snippet.text.slice(start, end),
+      start,
+      isHighlighted: true,
+    });
+    cursor = end;
+  }
+  if (cursor < snippet.text.length) {
+    segments.push({
+      text: snippet.text.slice(cursor),
+      start: cursor,
+      isHighlighted: false,
+    });
+  }
+  return segments;
+}
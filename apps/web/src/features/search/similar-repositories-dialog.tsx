@@ -0,0 +1,166 @@
+import { Shapes } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Separator } from "@/components/ui/separator";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import type { RepositorySearchResult } from "./repository-search-engine";
+import type { RepositorySimilarFn } from "./use-repository-search";
+
+const SIMILAR_RESULT_LIMIT = 10;
+const MAX_SHARED_TOKENS = 5;
+
+type SimilarState =
+  | { status: "idle" }
+  | { status: "loading" }
+  | { status: "ready"; results: RepositorySearchResult[] }
+  | { status: "error" };
+
+function SimilarRepository({ result }: { result: RepositorySearchResult }) {
+  const { repository, matchedTokens, score } = result;
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-center justify-between gap-2">
+        <a
+          className="hover:underline"
+          href={`https://github.com/${repository.owner}/${repository.name}`}
+          rel="noopener noreferrer"
+          target="_blank"
+        >
+          <span className="font-semibold text-sm">
+            {repository.owner}/{repository.name}
+          </span>
+        </a>
+        <span className="font-mono text-muted-foreground text-xs">
+          {score.toFixed(2)}
+        </span>
+      </div>
+      {repository.description ? (
+        <p className="line-clamp-2 text-muted-foreground text-xs">
+          {repository.description}
+        </p>
+      ) : null}
+      <div className="flex flex-wrap gap-1.5">
+        {matchedTokens.slice(0, MAX_SHARED_TOKENS).map((token) => (
+          <span
+            className={cn(
+              "rounded-md",
+              "bg-primary/10",
+              "px-2 py-0.5",
+              "font-mono text-primary text-xs"
+            )}
+            key={token}
+          >
+            {token}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function SimilarBody({ state }: { state: SimilarState }) {
+  if (state.status === "idle" || state.status === "loading") {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Spinner className="size-5" />
+      </div>
+    );
+  }
+  if (state.status === "error") {
+    return (
+      <p className="text-muted-foreground text-sm">
+        The search index is not ready yet. Try again in a moment.
+      </p>
+    );
+  }
+  if (state.results.length === 0) {
+    return (
+      <p className="text-muted-foreground text-sm">
+        None of your other stars share enough vocabulary with this one.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid max-h-[60vh] gap-3 overflow-y-auto">
+      {state.results.map((result, index) => (
+        <div className="flex flex-col gap-3" key={result.id}>
+          {index > 0 && <Separator />}
+          <SimilarRepository result={result} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * "More like this" for repository `id`: lists the starred repositories whose
+ * text is closest to it, with the terms they share.
+ */
+export function SimilarRepositoriesDialog({
+  id,
+  findSimilar,
+}: {
+  id: string;
+  findSimilar: RepositorySimilarFn;
+}) {
+  const [state, setState] = useState<SimilarState>({ status: "idle" });
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setState({ status: "idle" });
+      return;
+    }
+    setState({ status: "loading" });
+    findSimilar(id, SIMILAR_RESULT_LIMIT)
+      .then((results) => {
+        setState({ status: "ready", results });
+      })
+      .catch(() => {
+        setState({ status: "error" });
+      });
+  };
+
+  return (
+    <Dialog onOpenChange={handleOpenChange}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DialogTrigger asChild>
+            <Button
+              className="size-8 shrink-0 text-muted-foreground"
+              size="icon"
+              variant="ghost"
+            >
+              <Shapes className="size-4" />
+            </Button>
+          </DialogTrigger>
+        </TooltipTrigger>
+        <TooltipContent>More like this</TooltipContent>
+      </Tooltip>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>More like {id}</DialogTitle>
+          <DialogDescription>
+            Starred repositories that describe themselves in similar terms.
+          </DialogDescription>
+        </DialogHeader>
+        <SimilarBody state={state} />
+      </DialogContent>
+    </Dialog>
+  );
+}
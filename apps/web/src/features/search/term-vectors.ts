@@ -0,0 +1,72 @@
+/** Sparse, L2-normalized term vector of a repository. */
+export type TermVector = Map<string, number>;
+
+const TOP_TERM_CANDIDATES_PER_TERM = 6;
+const NUMERIC_PATTERN = /^\p{N}+$/u;
+
+export function normalizeVector(vector: TermVector): TermVector {
+  let squaredNorm = 0;
+  for (const weight of vector.values()) {
+    squaredNorm += weight * weight;
+  }
+  if (squaredNorm === 0) {
+    return vector;
+  }
+  const norm = Math.sqrt(squaredNorm);
+  const normalized: TermVector = new Map();
+  for (const [token, weight] of vector.entries()) {
+    normalized.set(token, weight / norm);
+  }
+  return normalized;
+}
+
+/** Cosine similarity of two normalized vectors. */
+export function cosineSimilarity(left: TermVector, right: TermVector): number {
+  const [smaller, larger] =
+    left.size <= right.size ? [left, right] : [right, left];
+  let dot = 0;
+  for (const [token, weight] of smaller.entries()) {
+    dot += weight * (larger.get(token) ?? 0);
+  }
+  return dot;
+}
+
+/** Normalized sum of `vectors`, pointing at their common direction. */
+export function averageVectors(vectors: TermVector[]): TermVector {
+  const sum: TermVector = new Map();
+  for (const vector of vectors) {
+    for (const [token, weight] of vector) {
+      sum.set(token, (sum.get(token) ?? 0) + weight);
+    }
+  }
+  return normalizeVector(sum);
+}
+
+/**
+ * Picks the highest-weighted terms, skipping numbers and terms that are a
+ * prefix of one already picked or the other way around, so a word and its
+ * stem do not both show up.
+ */
+export function getTopTerms(vector: TermVector, count: number): string[] {
+  const candidates = Array.from(vector.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, TOP_TERM_CANDIDATES_PER_TERM * count)
+    .map(([token]) => token);
+
+  const terms: string[] = [];
+  for (const token of candidates) {
+    if (terms.length >= count) {
+      break;
+    }
+    if (NUMERIC_PATTERN.test(token)) {
+      continue;
+    }
+    const overlaps = terms.some(
+      (term) => term.startsWith(token) || token.startsWith(term)
+    );
+    if (!overlaps) {
+      terms.push(token);
+    }
+  }
+  return terms;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { TopKHeap } from "./top-k-heap";
+
+const alphabetically = (left: string, right: string) =>
+  left.localeCompare(right);
+
+describe("TopKHeap", () => {
+  it("keeps the best items, best first", () => {
+    const heap = new TopKHeap(2, alphabetically);
+    for (const item of ["e", "a", "i", "c", "g", "b", "h"]) {
+      heap.push(item);
+    }
+
+    expect(heap.toSortedArray()).toEqual(["a", "b"]);
+  });
+
+  it("exposes the item to beat once full", () => {
+    const heap = new TopKHeap(2, alphabetically);
+    heap.push("d");
+    expect(heap.isFull).toBe(false);
+    heap.push("b");
+
+    expect(heap.isFull).toBe(true);
+    expect(heap.worst()).toBe("d");
+  });
+
+  it("rejects items that do not beat the worst kept one", () => {
+    const heap = new TopKHeap(2, alphabetically);
+    heap.push("d");
+    heap.push("b");
+
+    expect(heap.push("d")).toBe(false);
+    expect(heap.push("z")).toBe(false);
+    expect(heap.push("c")).toBe(true);
+    expect(heap.toSortedArray()).toEqual(["b", "c"]);
+  });
+
+  it("keeps nothing without capacity", () => {
+    const heap = new TopKHeap(0, alphabetically);
+
+    expect(heap.push("a")).toBe(false);
+    expect(heap.size).toBe(0);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Keeps the best `capacity` items pushed so far, where `compare` orders items
+ * as for `Array.prototype.sort`, best first. The worst kept item sits at the
+ * root, so an item that cannot make the cut is rejected in constant time and
+ * any other is kept in O(log capacity).
+ */
+export class TopKHeap<T> {
+  private readonly items: T[] = [];
+  private readonly capacity: number;
+  private readonly compare: (left: T, right: T) => number;
+
+  constructor(capacity: number, compare: (left: T, right: T) => number) {
+    this.capacity = Math.max(0, capacity);
+    this.compare = compare;
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  get isFull(): boolean {
+    return this.items.length >= this.capacity;
+  }
+
+  /** The item a new one has to beat once the heap is full. */
+  worst(): T | undefined {
+    return this.items[0];
+  }
+
+  /** Returns whether `item` was kept. Ties with the worst item are not. */
+  push(item: T): boolean {
+    if (!this.isFull) {
+      this.items.push(item);
+      this.siftUp(this.items.length - 1);
+      return true;
+    }
+    const worst = this.items[0];
+    if (worst === undefined || this.compare(item, worst) >= 0) {
+      return false;
+    }
+    this.items[0] = item;
+    this.siftDown(0);
+    return true;
+  }
+
+  /** Kept items, best first. */
+  toSortedArray(): T[] {
+    return [...this.items].sort(this.compare);
+  }
+
+  /** Whether `left` belongs above `right`, i.e. ranks worse. */
+  private isWorse(left: number, right: number): boolean {
+    const leftItem = this.items[left];
+    const rightItem = this.items[right];
+    if (leftItem === undefined || rightItem === undefined) {
+      return false;
+    }
+    return this.compare(leftItem, rightItem) > 0;
+  }
+
+  private swap(left: number, right: number) {
+    const leftItem = this.items[left];
+    const rightItem = this.items[right];
+    if (leftItem === undefined || rightItem === undefined) {
+      return;
+    }
+    this.items[left] = rightItem;
+    this.items[right] = leftItem;
+  }
+
+  private siftUp(start: number) {
+    let index = start;
+    while (index > 0) {
+      const parent = Math.floor((index - 1) / 2);
+      if (!this.isWorse(index, parent)) {
+        return;
+      }
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  private siftDown(start: number) {
+    let index = start;
+    for (;;) {
+      const left = 2 * index + 1;
+      const right = left + 1;
+      let worst = index;
+      if (left < this.items.length && this.isWorse(left, worst)) {
+        worst = left;
+      }
+      if (right < this.items.length && this.isWorse(right, worst)) {
+        worst = right;
+      }
+      if (worst === index) {
+        return;
+      }
+      this.swap(index, worst);
+      index = worst;
+    }
+  }
+}
@@ -1,16 +1,28 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
+import { useDebounceValue } from "usehooks-ts";
 
-import { useGithubStarredRepositories } from "@/features/github/use-github-starred-repositories";
+import {
+  type ReadmeProgress,
+  useGithubStarredRepositories,
+} from "@/features/github/use-github-starred-repositories";
 import type { RepositorySearchResult } from "./repository-search-engine";
-import { useRepositorySearch } from "./use-repository-search";
+import { useSharedRepositorySearch } from "./repository-search-provider";
+import type { IndexingProgress } from "./repository-search-worker-api";
 import { type KeywordResult, useSearchKeywords } from "./use-search-keywords";
+import { useSearchResults } from "./use-search-results";
 
 const MAX_QUERY_LENGTH = 1000;
+const SEARCH_RESULT_LIMIT = 20;
+const INSTANT_SEARCH_DELAY_MS = 150;
 
 type PromptSearchRepositoryStatusArgs = {
   isLoading: boolean;
+  isIndexing: boolean;
   error: string | null;
   indexedCount: number;
+  indexedReadmeCount: number;
+  progress: IndexingProgress;
+  readmeProgress: ReadmeProgress | null;
 };
 
 export type PromptSearchState = {
@@ -27,8 +39,15 @@ export type PromptSearchState = {
   showKeywordSpinner: boolean;
   keywords: string[];
   keywordResult: KeywordResult | null;
+  /**
+   * The typed query, searched locally with its `owner:`, `"phrase"`, `+` and
+   * `-` syntax while typing; null when there is nothing to search or the AI
+   * already expanded this input.
+   */
+  instantQuery: string | null;
   searchResults: RepositorySearchResult[];
   indexedCount: number;
+  indexingProgress: IndexingProgress;
   hasSubmitted: boolean;
   originalQuery: string | null;
   isQueryTooLong: boolean;
@@ -51,17 +70,34 @@ function resolveErrorMessage(value: unknown): string | null {
 
 function describeRepositoryStatus({
   isLoading,
+  isIndexing,
   error,
   indexedCount,
+  indexedReadmeCount,
+  progress,
+  readmeProgress,
 }: PromptSearchRepositoryStatusArgs): string {
   if (isLoading) {
-    return "Indexing starred repositories…";
+    return "Loading starred repositories…";
   }
 
+  // A failed README fetch leaves the last partial data, and its progress,
+  // in place.
   if (error) {
     return "Failed to load repositories.";
   }
 
+  // Names and descriptions are searchable while READMEs stream in.
+  if (readmeProgress && indexedCount > 0) {
+    return `READMEs indexed for ${indexedReadmeCount} of ${readmeProgress.total} repositories…`;
+  }
+
+  if (isIndexing) {
+    return progress.total > 0
+      ? `Indexing starred repositories… (${progress.indexed}/${progress.total})`
+      : "Indexing starred repositories…";
+  }
+
   if (!indexedCount) {
     return "No repositories indexed yet.";
   }
@@ -71,9 +107,7 @@ function describeRepositoryStatus({
 
 export function usePromptSearchState(): PromptSearchState {
   const github = useGithubStarredRepositories();
-  const repositorySearch = useRepositorySearch({
-    repositories: github.repositories,
-  });
+  const repositorySearch = useSharedRepositorySearch();
   const keywords = useSearchKeywords();
   const [hasSubmitted, setHasSubmitted] = useState(false);
 
@@ -107,21 +141,38 @@ export function usePromptSearchState(): PromptSearchState {
     }
   }, [keywords.result]);
 
-  const searchResults = useMemo(() => {
-    if (!(keywords.result && repositorySearch.isReady)) {
-      return [];
-    }
-
-    return repositorySearch.search(keywords.result.keywords, { limit: 20 });
-  }, [keywords.result, repositorySearch]);
+  const searchResults = useSearchResults({
+    search: repositorySearch.search,
+    keywords: keywords.result?.keywords ?? null,
+    isReady: repositorySearch.isReady,
+    limit: SEARCH_RESULT_LIMIT,
+  });
 
   const repositoryError = resolveErrorMessage(github.error);
   const repositoryStatus = describeRepositoryStatus({
-    isLoading: github.isLoading || github.isFetching,
+    isLoading:
+      github.isLoading || (github.isFetching && !github.readmeProgress),
+    isIndexing: repositorySearch.isIndexing,
     error: repositoryError,
     indexedCount: repositorySearch.indexedCount,
+    indexedReadmeCount: repositorySearch.indexedReadmeCount,
+    progress: repositorySearch.progress,
+    readmeProgress: github.readmeProgress,
   });
 
+  const [debouncedInput] = useDebounceValue(
+    keywords.input,
+    INSTANT_SEARCH_DELAY_MS
+  );
+  const expandedQuery = keywords.result?.originalQuery;
+  const instantQuery = useMemo(() => {
+    const query = debouncedInput.trim();
+    if (!query || query.length > MAX_QUERY_LENGTH || query === expandedQuery) {
+      return null;
+    }
+    return query;
+  }, [debouncedInput, expandedQuery]);
+
   const keywordError = keywords.error?.message ?? null;
   const queryLength = keywords.input.length;
   const isQueryTooLong = queryLength > MAX_QUERY_LENGTH;
@@ -143,8 +194,10 @@ export function usePromptSearchState(): PromptSearchState {
     showKeywordSpinner: keywords.isPending && !keywords.result,
     keywords: keywords.result?.keywords ?? [],
     keywordResult: keywords.result,
+    instantQuery,
     searchResults,
     indexedCount: repositorySearch.indexedCount,
+    indexingProgress: repositorySearch.progress,
     hasSubmitted,
     originalQuery: keywords.result?.originalQuery ?? null,
     isQueryTooLong,
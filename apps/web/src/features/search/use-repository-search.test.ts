@@ -1,7 +1,11 @@
 import type { StarredRepository } from "@i-starred-it/api/services/github";
-import { renderHook } from "@testing-library/react";
+import { renderHook, waitFor } from "@testing-library/react";
 import { describe, expect, it } from "vitest";
-import { useRepositorySearch } from "./use-repository-search";
+import {
+  memoizeSearch,
+  type RepositorySearchFn,
+  useRepositorySearch,
+} from "./use-repository-search";
 
 const EXPECTED_UPDATED_COUNT = 3;
 
@@ -31,7 +35,7 @@ describe("useRepositorySearch", () => {
     expect(result.current.indexedCount).toBe(0);
   });
 
-  it("indexes repositories on mount", () => {
+  it("indexes repositories on mount", async () => {
     const repositories = [
       createMockRepository("facebook", "react"),
       createMockRepository("vercel", "next.js"),
@@ -39,32 +43,86 @@ describe("useRepositorySearch", () => {
 
     const { result } = renderHook(() => useRepositorySearch({ repositories }));
 
-    expect(result.current.isReady).toBe(true);
+    await waitFor(() => expect(result.current.isReady).toBe(true));
     expect(result.current.indexedCount).toBe(2);
   });
 
-  it("searches indexed repositories", () => {
+  it("counts the READMEs it has indexed", async () => {
+    const repositories = [
+      { ...createMockRepository("facebook", "react"), readme: "# React" },
+      createMockRepository("vercel", "next.js"),
+    ];
+
+    const { result } = renderHook(() =>
+      useRepositorySearch({ repositories, isPartial: true })
+    );
+
+    await waitFor(() => expect(result.current.isReady).toBe(true));
+    expect(result.current.indexedReadmeCount).toBe(1);
+    expect(await result.current.search(["react"])).not.toEqual([]);
+  });
+
+  it("keeps indexed READMEs while a refresh publishes partial data", async () => {
+    const withReadme: StarredRepository = {
+      ...createMockRepository("facebook", "react"),
+      readme: "# React\n\nReconciler internals.",
+    };
+    const { result, rerender } = renderHook(
+      ({ repositories, isPartial }) =>
+        useRepositorySearch({ repositories, isPartial }),
+      { initialProps: { repositories: [withReadme], isPartial: false } }
+    );
+    await waitFor(() => expect(result.current.indexedReadmeCount).toBe(1));
+
+    rerender({
+      repositories: [{ ...withReadme, readme: null }],
+      isPartial: true,
+    });
+    await waitFor(() => expect(result.current.isIndexing).toBe(false));
+
+    const ids = (await result.current.search(["reconciler"])).map(
+      (hit) => hit.id
+    );
+    expect(ids).toEqual(["facebook/react"]);
+    expect(result.current.indexedReadmeCount).toBe(1);
+  });
+
+  it("reports indexing progress", async () => {
+    const repositories = [
+      createMockRepository("facebook", "react"),
+      createMockRepository("vercel", "next.js"),
+    ];
+
+    const { result } = renderHook(() => useRepositorySearch({ repositories }));
+
+    await waitFor(() => expect(result.current.isReady).toBe(true));
+    expect(result.current.isIndexing).toBe(false);
+    expect(result.current.progress).toEqual({ indexed: 2, total: 2 });
+  });
+
+  it("searches indexed repositories", async () => {
     const repositories = [
       createMockRepository("facebook", "react", "A JavaScript library"),
       createMockRepository("vercel", "next.js", "The React Framework"),
     ];
 
     const { result } = renderHook(() => useRepositorySearch({ repositories }));
+    await waitFor(() => expect(result.current.isReady).toBe(true));
 
-    const results = result.current.search(["react"]);
+    const results = await result.current.search(["react"]);
     expect(results.length).toBeGreaterThan(0);
   });
 
-  it("returns empty results when not ready", () => {
+  it("returns empty results when not ready", async () => {
     const { result } = renderHook(() =>
       useRepositorySearch({ repositories: [] })
     );
 
-    const results = result.current.search(["test"]);
+    const results = await result.current.search(["test"]);
     expect(results).toEqual([]);
   });
 
-  it("re-indexes when repositories change", () => {
+  it("re-indexes when repositories change", async () => {
     const initialRepos = [createMockRepository("facebook", "react")];
 
     const { result, rerender } = renderHook(
@@ -74,7 +132,7 @@ describe("useRepositorySearch", () => {
       }
     );
 
-    expect(result.current.indexedCount).toBe(1);
+    await waitFor(() => expect(result.current.indexedCount).toBe(1));
 
     const updatedRepos = [
       createMockRepository("facebook", "react"),
@@ -84,10 +142,32 @@ describe("useRepositorySearch", () => {
 
     rerender({ repositories: updatedRepos });
 
-    expect(result.current.indexedCount).toBe(EXPECTED_UPDATED_COUNT);
+    await waitFor(() =>
+      expect(result.current.indexedCount).toBe(EXPECTED_UPDATED_COUNT)
+    );
   });
 
-  it("resets state when repositories become empty", () => {
+  it("drops repositories that are no longer starred", async () => {
+    const initialRepos = [
+      createMockRepository("facebook", "react", "A JavaScript library"),
+      createMockRepository("vercel", "next.js", "The React Framework"),
+    ];
+
+    const { result, rerender } = renderHook(
+      ({ repositories }) => useRepositorySearch({ repositories }),
+      {
+        initialProps: { repositories: initialRepos },
+      }
+    );
+
+    await waitFor(() => expect(result.current.indexedCount).toBe(2));
+    rerender({ repositories: [initialRepos[0]] });
+
+    await waitFor(() => expect(result.current.indexedCount).toBe(1));
+    expect(await result.current.search(["framework"])).toEqual([]);
+  });
+
+  it("resets state when repositories become empty", async () => {
     const initialRepositories = [createMockRepository("facebook", "react")];
 
     const { result, rerender } = renderHook(
@@ -97,7 +177,7 @@ describe("useRepositorySearch", () => {
       }
     );
 
-    expect(result.current.isReady).toBe(true);
+    await waitFor(() => expect(result.current.isReady).toBe(true));
     expect(result.current.indexedCount).toBe(1);
 
     rerender({ repositories: [] });
@@ -106,7 +186,7 @@ describe("useRepositorySearch", () => {
     expect(result.current.indexedCount).toBe(0);
   });
 
-  it("respects search options", () => {
+  it("respects search options", async () => {
     const repositories = [
       createMockRepository("facebook", "react"),
       createMockRepository("vercel", "next.js"),
@@ -114,17 +194,19 @@ describe("useRepositorySearch", () => {
     ];
 
     const { result } = renderHook(() => useRepositorySearch({ repositories }));
+    await waitFor(() => expect(result.current.isReady).toBe(true));
 
-    const results = result.current.search(["framework"], { limit: 1 });
+    const results = await result.current.search(["framework"], { limit: 1 });
     expect(results.length).toBeLessThanOrEqual(1);
   });
 
-  it("maintains stable search function reference", () => {
+  it("maintains stable search function reference", async () => {
     const repositories = [createMockRepository("facebook", "react")];
 
     const { result, rerender } = renderHook(() =>
       useRepositorySearch({ repositories })
     );
+    await waitFor(() => expect(result.current.isReady).toBe(true));
 
     const searchFn1 = result.current.search;
     rerender();
@@ -142,3 +224,63 @@ describe("useRepositorySearch", () => {
     expect(result.current.indexedCount).toBe(0);
   });
 });
+
+describe("memoizeSearch", () => {
+  const createCountingSearch = () => {
+    const calls: string[][] = [];
+    const search: RepositorySearchFn = (keywords) => {
+      calls.push(keywords);
+      return Promise.resolve([]);
+    };
+    return { calls, search };
+  };
+
+  it("shares results between calls with the same keywords and options", async () => {
+    const { calls, search } = createCountingSearch();
+    const memoized = memoizeSearch(search);
+
+    const first = memoized(["react"], { limit: 20 });
+    const second = memoized(["react"], { limit: 20 });
+
+    expect(second).toBe(first);
+    await first;
+    expect(calls).toEqual([["react"]]);
+  });
+
+  it("searches again when the keywords or options differ", () => {
+    const { calls, search } = createCountingSearch();
+    const memoized = memoizeSearch(search);
+
+    memoized(["react"], { limit: 20 });
+    memoized(["react"], { limit: 10 });
+    memoized(["vue"], { limit: 20 });
+
+    expect(calls).toEqual([["react"], ["react"], ["vue"]]);
+  });
+
+  it("memoizes query searches by the query string", () => {
+    const queries: string[] = [];
+    const memoized = memoizeSearch((query: string) => {
+      queries.push(query);
+      return Promise.resolve([]);
+    });
+
+    memoized("owner:vercel -deprecated");
+    memoized("owner:vercel -deprecated");
+    memoized('"react router"');
+
+    expect(queries).toEqual(["owner:vercel -deprecated", '"react router"']);
+  });
+
+  it("forgets failed searches", async () => {
+    let attempts = 0;
+    const memoized = memoizeSearch(() => {
+      attempts += 1;
+      return Promise.reject(new Error("worker failed"));
+    });
+
+    await expect(memoized(["react"])).rejects.toThrow("worker failed");
+    await expect(memoized(["react"])).rejects.toThrow("worker failed");
+    expect(attempts).toBe(2);
+  });
+});
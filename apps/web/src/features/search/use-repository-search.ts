@@ -1,67 +1,267 @@
 import type { StarredRepository } from "@i-starred-it/api/services/github";
-import { useCallback, useEffect, useRef, useState } from "react";
-
-import {
-  RepositorySearchEngine,
-  type RepositorySearchResult,
-  type SearchOptions,
+import { useEffect, useMemo, useRef, useState } from "react";
+import type {
+  AlternativeGroup,
+  AlternativeOptions,
+} from "./repository-alternatives";
+import type {
+  ClusterOptions,
+  RepositoryClustering,
+} from "./repository-clustering";
+import { RepositorySearchClient } from "./repository-search-client";
+import type {
+  RepositoryDiagnosis,
+  RepositorySearchResult,
+  ScoreExplanation,
+  SearchOptions,
 } from "./repository-search-engine";
+import type {
+  IndexingProgress,
+  RepositorySearchMethod,
+  RepositorySearchWorkerApi,
+} from "./repository-search-worker-api";
 
 type UseRepositorySearchArgs = {
   repositories: StarredRepository[];
+  userId?: string | null;
+  /** One id per like; liked and similar repositories are boosted. */
+  likedRepositoryIds?: string[];
+  /** Set while `repositories` still lack some READMEs. */
+  isPartial?: boolean;
 };
 
-type UseRepositorySearchResult = {
+/** A search over keywords (`string[]`) or a query string (`string`). */
+export type RepositorySearchInputFn<Input> = (
+  input: Input,
+  options?: SearchOptions
+) => Promise<RepositorySearchResult[]>;
+
+export type RepositorySearchFn = RepositorySearchInputFn<string[]>;
+
+export type RepositoryQuerySearchFn = RepositorySearchInputFn<string>;
+
+export type RepositorySimilarFn = (
+  id: string,
+  limit?: number
+) => Promise<RepositorySearchResult[]>;
+
+export type RepositoryClusterFn = (
+  options?: ClusterOptions
+) => Promise<RepositoryClustering>;
+
+export type RepositoryAlternativesFn = (
+  options?: AlternativeOptions
+) => Promise<AlternativeGroup[]>;
+
+export type RepositoryExplainFn = (
+  id: string,
+  keywords: string[],
+  /** The `now` the explained search ranked with. */
+  now?: number
+) => Promise<ScoreExplanation | null>;
+
+export type RepositoryDiagnoseFn = (
+  id: string,
+  keywords: string[],
+  options?: SearchOptions
+) => Promise<RepositoryDiagnosis | null>;
+
+export type UseRepositorySearchResult = {
   isReady: boolean;
+  /** Bumped whenever a sync or new likes changed what searches return. */
+  revision: number;
+  isIndexing: boolean;
   indexedCount: number;
-  search: (
-    keywords: string[],
-    options?: SearchOptions
-  ) => RepositorySearchResult[];
+  /** Indexed repositories whose README is searchable. */
+  indexedReadmeCount: number;
+  progress: IndexingProgress;
+  search: RepositorySearchFn;
+  searchQuery: RepositoryQuerySearchFn;
+  similar: RepositorySimilarFn;
+  cluster: RepositoryClusterFn;
+  alternatives: RepositoryAlternativesFn;
+  explain: RepositoryExplainFn;
+  diagnose: RepositoryDiagnoseFn;
 };
 
+const EMPTY_PROGRESS: IndexingProgress = { indexed: 0, total: 0 };
+const MEMOIZED_SEARCH_LIMIT = 100;
+
+/**
+ * Wraps `search` so repeated calls with the same keywords (or query) and
+ * options share one result. `search` changes identity whenever the index
+ * does, so memoize it again then rather than keeping the cache.
+ */
+export function memoizeSearch<Input>(
+  search: RepositorySearchInputFn<Input>
+): RepositorySearchInputFn<Input> {
+  const cache = new Map<string, Promise<RepositorySearchResult[]>>();
+  return (input, options) => {
+    const key = JSON.stringify([input, options ?? null]);
+    const cached = cache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const results = search(input, options);
+    cache.set(key, results);
+    results.catch(() => cache.delete(key));
+    // Map iteration follows insertion order, so this evicts the oldest entry.
+    const [oldest] = cache.keys();
+    if (cache.size > MEMOIZED_SEARCH_LIMIT && oldest !== undefined) {
+      cache.delete(oldest);
+    }
+    return results;
+  };
+}
+
 export function useRepositorySearch({
   repositories,
+  userId = null,
+  likedRepositoryIds,
+  isPartial = false,
 }: UseRepositorySearchArgs): UseRepositorySearchResult {
-  const engineRef = useRef<RepositorySearchEngine | null>(null);
+  const clientRef = useRef<RepositorySearchClient | null>(null);
   const [isReady, setIsReady] = useState(false);
+  const [isIndexing, setIsIndexing] = useState(false);
   const [indexedCount, setIndexedCount] = useState(0);
+  const [indexedReadmeCount, setIndexedReadmeCount] = useState(0);
+  const [progress, setProgress] = useState<IndexingProgress>(EMPTY_PROGRESS);
+  // Bumped after every sync that changed the index so consumers re-run their
+  // searches against the new corpus.
+  const [revision, setRevision] = useState(0);
 
   useEffect(() => {
+    const client = new RepositorySearchClient();
+    const unsubscribe = client.onProgress(setProgress);
+    clientRef.current = client;
+
+    return () => {
+      unsubscribe();
+      client.dispose();
+      clientRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const client = clientRef.current;
+    if (!client) {
+      return;
+    }
+
+    let isCancelled = false;
+
     if (!repositories || repositories.length === 0) {
-      engineRef.current = null;
+      client.call("reset").catch(() => {
+        return;
+      });
       setIsReady(false);
+      setIsIndexing(false);
       setIndexedCount(0);
+      setIndexedReadmeCount(0);
+      setProgress(EMPTY_PROGRESS);
       return;
     }
 
-    const engine = new RepositorySearchEngine();
+    setIsIndexing(true);
+    client
+      .call("sync", repositories, userId, isPartial)
+      .then((result) => {
+        if (isCancelled) {
+          return;
+        }
+        setIndexedCount(result.indexedCount);
+        setIndexedReadmeCount(result.indexedReadmeCount);
+        setIsReady(true);
+        setIsIndexing(false);
+        if (result.hasChanges) {
+          setRevision((value) => value + 1);
+        }
+      })
+      .catch(() => {
+        if (!isCancelled) {
+          setIsIndexing(false);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [repositories, userId, isPartial]);
 
-    for (const repository of repositories) {
-      engine.add(repository);
+  useEffect(() => {
+    const client = clientRef.current;
+    if (!(client && likedRepositoryIds)) {
+      return;
     }
 
-    engine.consolidate();
-    engineRef.current = engine;
-    setIndexedCount(engine.size);
-    setIsReady(true);
-  }, [repositories]);
-
-  const search = useCallback(
-    (keywords: string[], options?: SearchOptions) => {
-      const engine = engineRef.current;
-      if (!(engine && isReady)) {
-        return [];
-      }
-
-      return engine.search(keywords, options);
-    },
-    [isReady]
-  );
+    let isCancelled = false;
+    client
+      .call("setLikedRepositories", likedRepositoryIds)
+      .then(() => {
+        if (!isCancelled) {
+          setRevision((value) => value + 1);
+        }
+      })
+      .catch(() => {
+        return;
+      });
 
-  return {
-    isReady,
-    indexedCount,
-    search,
-  };
+    return () => {
+      isCancelled = true;
+    };
+  }, [likedRepositoryIds]);
+
+  // Rebuilt whenever readiness or the index changes, so consumers depending
+  // on these functions re-run their searches against the new corpus.
+  const calls = useMemo(() => {
+    const callWhenReady =
+      <Method extends RepositorySearchMethod, Fallback>(
+        method: Method,
+        fallback: Fallback
+      ) =>
+      async (
+        ...args: Parameters<RepositorySearchWorkerApi[Method]>
+      ): Promise<
+        Awaited<ReturnType<RepositorySearchWorkerApi[Method]>> | Fallback
+      > => {
+        const client = clientRef.current;
+        if (!(client && isReady)) {
+          return fallback;
+        }
+        return await client.call(method, ...args);
+      };
+
+    return {
+      revision,
+      search: callWhenReady("search", []) satisfies RepositorySearchFn,
+      searchQuery: callWhenReady(
+        "searchQuery",
+        []
+      ) satisfies RepositoryQuerySearchFn,
+      similar: callWhenReady("similar", []) satisfies RepositorySimilarFn,
+      cluster: callWhenReady("cluster", {
+        clusters: [],
+        unclusteredIds: [],
+      }) satisfies RepositoryClusterFn,
+      alternatives: callWhenReady(
+        "alternatives",
+        []
+      ) satisfies RepositoryAlternativesFn,
+      explain: callWhenReady("explain", null) satisfies RepositoryExplainFn,
+      diagnose: callWhenReady("diagnose", null) satisfies RepositoryDiagnoseFn,
+    };
+  }, [isReady, revision]);
+
+  return useMemo(
+    () => ({
+      isReady,
+      isIndexing,
+      indexedCount,
+      indexedReadmeCount,
+      progress,
+      ...calls,
+    }),
+    [isReady, isIndexing, indexedCount, indexedReadmeCount, progress, calls]
+  );
 }
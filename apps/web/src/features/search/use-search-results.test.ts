@@ -0,0 +1,43 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import type { SearchOptions } from "./repository-search-engine";
+import type { RepositorySearchFn } from "./use-repository-search";
+import { usePaginatedSearchResults } from "./use-search-results";
+
+const PAGE_SIZE = 2;
+const KEYWORDS = ["react"];
+
+describe("usePaginatedSearchResults", () => {
+  it("ranks every page with the time of the first one", async () => {
+    const calls: SearchOptions[] = [];
+    const search: RepositorySearchFn = (_keywords, options = {}) => {
+      calls.push(options);
+      const offset = options.offset ?? 0;
+      return Promise.resolve(
+        Array.from({ length: PAGE_SIZE }, (_, index) => ({
+          id: `owner/repo-${offset + index}`,
+        })) as Awaited<ReturnType<RepositorySearchFn>>
+      );
+    };
+
+    const { result } = renderHook(() =>
+      usePaginatedSearchResults({
+        search,
+        keywords: KEYWORDS,
+        isReady: true,
+        limit: PAGE_SIZE,
+      })
+    );
+    await waitFor(() => expect(result.current.results).toHaveLength(PAGE_SIZE));
+
+    act(() => result.current.loadMore());
+    await waitFor(() =>
+      expect(result.current.results).toHaveLength(PAGE_SIZE * 2)
+    );
+
+    const [firstPage, secondPage] = calls;
+    expect(firstPage?.now).toEqual(expect.any(Number));
+    expect(secondPage?.now).toBe(firstPage?.now);
+    expect(secondPage?.offset).toBe(PAGE_SIZE);
+  });
+});
@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import type { RepositorySearchResult } from "./repository-search-engine";
+import type { SearchFilters, SearchSort } from "./search-filters";
+import type { RepositorySearchInputFn } from "./use-repository-search";
+
+type UseSearchResultsArgs<Input> = {
+  /** `search` over keywords, or `searchQuery` over a typed query. */
+  search: RepositorySearchInputFn<Input>;
+  keywords: Input | null;
+  isReady: boolean;
+  limit: number;
+  filters?: SearchFilters;
+  sort?: SearchSort;
+};
+
+type SearchPage = {
+  results: RepositorySearchResult[];
+  /** The time the recency priors were measured from, when pinned. */
+  now: number | undefined;
+};
+
+const EMPTY_PAGE: SearchPage = { results: [], now: undefined };
+
+/**
+ * Searches the first page. With `pinsNow`, the time the page was requested is
+ * passed along and returned, so later pages can rank with the same priors.
+ */
+function useFirstPage<Input>(
+  {
+    search,
+    keywords,
+    isReady,
+    limit,
+    filters,
+    sort,
+  }: UseSearchResultsArgs<Input>,
+  pinsNow: boolean
+): SearchPage {
+  const [page, setPage] = useState<SearchPage>(EMPTY_PAGE);
+
+  useEffect(() => {
+    if (keywords === null || !isReady) {
+      setPage(EMPTY_PAGE);
+      return;
+    }
+
+    let isCancelled = false;
+    const now = pinsNow ? Date.now() : undefined;
+    search(keywords, { limit, filters, sort, now })
+      .then((results) => {
+        if (!isCancelled) {
+          setPage({ results, now });
+        }
+      })
+      .catch(() => {
+        if (!isCancelled) {
+          setPage(EMPTY_PAGE);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [search, keywords, isReady, limit, filters, sort, pinsNow]);
+
+  return page;
+}
+
+export function useSearchResults<Input>(
+  args: UseSearchResultsArgs<Input>
+): RepositorySearchResult[] {
+  return useFirstPage(args, false).results;
+}
+
+type PaginatedSearchResults = {
+  results: RepositorySearchResult[];
+  /** Whether the last page was full, so another may follow. */
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  loadMore: () => void;
+  /** The time every page ranks with, to explain their scores with. */
+  now: number | undefined;
+};
+
+/**
+ * `useSearchResults` plus "load more": each call appends the next `limit`
+ * results. Loaded pages are dropped whenever the first page is searched
+ * again, since the ranking they continue may have changed.
+ */
+export function usePaginatedSearchResults<Input>(
+  args: UseSearchResultsArgs<Input>
+): PaginatedSearchResults {
+  const { search, keywords, limit, filters, sort } = args;
+  // Every page ranks with the first page's time, so the recency priors cannot
+  // move results across page boundaries.
+  const { results: firstPage, now } = useFirstPage(args, true);
+  const [morePages, setMorePages] = useState<RepositorySearchResult[][]>([]);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Pages that arrive after the first page changed belong to an old ranking.
+  const firstPageRef = useRef(firstPage);
+
+  useEffect(() => {
+    firstPageRef.current = firstPage;
+    setMorePages([]);
+    setIsLoadingMore(false);
+  }, [firstPage]);
+
+  const results = useMemo(
+    () => [firstPage, ...morePages].flat(),
+    [firstPage, morePages]
+  );
+  const lastPage = morePages.at(-1) ?? firstPage;
+  const hasMore = lastPage.length >= limit;
+
+  const loadMore = useCallback(() => {
+    if (keywords === null || isLoadingMore) {
+      return;
+    }
+    const pageOwner = firstPage;
+    setIsLoadingMore(true);
+    search(keywords, { limit, filters, sort, now, offset: results.length })
+      .then((page) => {
+        if (firstPageRef.current === pageOwner) {
+          setMorePages((pages) => [...pages, page]);
+        }
+      })
+      .catch(() => {
+        return;
+      })
+      .finally(() => {
+        if (firstPageRef.current === pageOwner) {
+          setIsLoadingMore(false);
+        }
+      });
+  }, [
+    search,
+    keywords,
+    limit,
+    filters,
+    sort,
+    now,
+    firstPage,
+    isLoadingMore,
+    results.length,
+  ]);
+
+  return { results, hasMore, isLoadingMore, loadMore, now };
+}
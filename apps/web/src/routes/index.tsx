@@ -16,6 +16,9 @@ import {
 } from "@/components/ui/tooltip";
 import { RepositoryCacheManager } from "@/features/github/repository-cache-manager";
 import { PromptSearch } from "@/features/search/prompt-search";
+import { RepositoryAlternativesDialog } from "@/features/search/repository-alternatives-dialog";
+import { RepositoryClusterBrowser } from "@/features/search/repository-cluster-browser";
+import { RepositorySearchProvider } from "@/features/search/repository-search-provider";
 import { useSearchHistory } from "@/features/search/use-search-history";
 import { authClient } from "@/lib/auth-client";
 import { cn } from "@/lib/utils";
@@ -26,15 +29,23 @@ export const Route = createFileRoute("/")({
 
 function HomeComponent() {
   const { data: session } = authClient.useSession();
+  const sections = (
+    <div className="grid gap-6">
+      <AuthSection />
+      {session ? <PromptSearch /> : null}
+    </div>
+  );
 
   return (
     <div className="container mx-auto flex max-w-3xl flex-col gap-6 px-4 py-2">
       <AboutSection />
 
-      <div className="grid gap-6">
-        <AuthSection />
-        {session ? <PromptSearch /> : null}
-      </div>
+      {/* One search index for the prompt and every dialog that needs it. */}
+      {session ? (
+        <RepositorySearchProvider>{sections}</RepositorySearchProvider>
+      ) : (
+        sections
+      )}
     </div>
   );
 }
@@ -217,6 +228,8 @@ function AuthSection() {
             </TooltipTrigger>
             <TooltipContent>Resets at {resetTimeString}</TooltipContent>
           </Tooltip>
+          <RepositoryClusterBrowser />
+          <RepositoryAlternativesDialog />
           <RepositoryCacheManager />
           <Tooltip>
             <TooltipTrigger asChild>
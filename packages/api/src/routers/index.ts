@@ -13,6 +13,7 @@ import {
   checkIfRepositoryLiked,
   getLikedRepositories,
   getLikeStatusForRepositories,
+  getRankingEvaluationCases,
   LikeError,
   likeRepository,
   unlikeRepository,
@@ -289,6 +290,25 @@ export const appRouter = {
       throw error;
     }
   }),
+  getRankingEvaluationCases: protectedProcedure.handler(async ({ context }) => {
+    const userId = context.session?.user?.id;
+
+    if (!userId) {
+      throw new ORPCError("UNAUTHORIZED");
+    }
+
+    try {
+      return await getRankingEvaluationCases(userId);
+    } catch (error) {
+      if (error instanceof LikeError) {
+        throw new ORPCError("BAD_REQUEST", {
+          message: error.message,
+        });
+      }
+
+      throw error;
+    }
+  }),
   checkIfRepositoryLiked: protectedProcedure
     .input(
       z.object({
@@ -18,6 +18,8 @@ export type StarredRepository = {
   updatedAt: string;
   starredAt: string;
   forkCount: number;
+  /** Missing from repositories cached before topics were fetched. */
+  topics?: string[];
 };
 
 export class MissingGithubTokenError extends Error {
@@ -92,6 +94,9 @@ type StarredRepositoriesQuery = {
           forkCount: number;
           pushedAt: string;
           updatedAt: string;
+          repositoryTopics?: {
+            nodes: { topic: { name: string } }[];
+          };
         };
       }[];
     };
@@ -118,6 +123,13 @@ const STARRED_REPOSITORIES_QUERY = `
             forkCount
             pushedAt
             updatedAt
+            repositoryTopics(first: 20) {
+              nodes {
+                topic {
+                  name
+                }
+              }
+            }
           }
         }
       }
@@ -387,6 +399,7 @@ type RestStarredResponse = Array<{
     forks_count: number;
     pushed_at: string;
     updated_at: string;
+    topics?: string[];
   };
 }>;
 
@@ -470,6 +483,7 @@ function mapRestResponseToRepository(
     pushedAt: item.repo.pushed_at,
     updatedAt: item.repo.updated_at,
     starredAt: item.starred_at,
+    topics: item.repo.topics ?? [],
   };
 }
 
@@ -495,6 +509,7 @@ async function mapEdgeToRepository(
     pushedAt: node.pushedAt,
     updatedAt: node.updatedAt,
     starredAt: edge.starredAt,
+    topics: node.repositoryTopics?.nodes.map(({ topic }) => topic.name) ?? [],
   };
 }
 
@@ -1,6 +1,7 @@
 import { db } from "@i-starred-it/db";
 import { repositoryLikes } from "@i-starred-it/db/schema/likes";
-import { and, desc, eq } from "drizzle-orm";
+import { searchQueries } from "@i-starred-it/db/schema/search";
+import { and, asc, desc, eq } from "drizzle-orm";
 
 export class LikeError extends Error {}
 
@@ -28,6 +29,24 @@ export type RepositoryIdentifier = {
   name: string;
 };
 
+export type RankingEvaluationCase = {
+  searchQueryId: string;
+  originalQuery: string;
+  keywords: string[];
+  liked: Array<RepositoryIdentifier & { likedRank: number }>;
+};
+
+function parseStoredKeywords(value: string): string[] {
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed)
+      ? parsed.filter((item): item is string => typeof item === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
 export async function likeRepository(
   input: LikeRepositoryInput
 ): Promise<string> {
@@ -206,3 +225,56 @@ export async function getLikeStatusForRepositories(
 
   return result;
 }
+
+/**
+ * Groups every like of the user by the search it was made in, so the
+ * queries can be replayed offline with the liked repositories as relevance
+ * labels. Deleted searches are kept because their likes are still valid.
+ */
+export async function getRankingEvaluationCases(
+  userId: string
+): Promise<RankingEvaluationCase[]> {
+  if (!userId) {
+    throw new LikeError("User ID is required");
+  }
+
+  const rows = await db
+    .select({
+      searchQueryId: repositoryLikes.searchQueryId,
+      originalQuery: searchQueries.originalQuery,
+      generatedKeywords: searchQueries.generatedKeywords,
+      likedOwner: repositoryLikes.likedOwner,
+      likedName: repositoryLikes.likedName,
+      likedRank: repositoryLikes.likedRank,
+    })
+    .from(repositoryLikes)
+    .innerJoin(
+      searchQueries,
+      eq(repositoryLikes.searchQueryId, searchQueries.id)
+    )
+    .where(eq(repositoryLikes.userId, userId))
+    .orderBy(asc(repositoryLikes.createdAt));
+
+  const cases = new Map<string, RankingEvaluationCase>();
+  for (const row of rows) {
+    let evaluationCase = cases.get(row.searchQueryId);
+    if (!evaluationCase) {
+      evaluationCase = {
+        searchQueryId: row.searchQueryId,
+        originalQuery: row.originalQuery,
+        keywords: parseStoredKeywords(row.generatedKeywords),
+        liked: [],
+      };
+      cases.set(row.searchQueryId, evaluationCase);
+    }
+    evaluationCase.liked.push({
+      owner: row.likedOwner,
+      name: row.likedName,
+      likedRank: row.likedRank,
+    });
+  }
+
+  return Array.from(cases.values()).filter(
+    (evaluationCase) => evaluationCase.keywords.length > 0
+  );
+}